@@ -1,7 +1,8 @@
 import { Hono } from 'hono';
 import { serve } from '@hono/node-server';
 import { routes, config } from './app/server/routes';
-import { registerRoutes } from '@sol/core/server-runtime';
+// Node entry: SOL_CACHE_ADAPTER=fs|sqlite|memory selects the ISR cache
+import { registerRoutes } from '@sol/core/server-node';
 
 const app = new Hono();
 const routerConfig = config();
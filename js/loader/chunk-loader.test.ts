@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { ChunkLoader, type ChunkErrorDetail } from "./src/boot/loader.ts";
+
+const manifest = (build: string, chunk: string) => ({
+  routes: { "/": ["home"] },
+  chunks: { home: chunk },
+  base: "/_luna/",
+  build,
+});
+
+function spyImport(impl: (url: string, integrity?: string) => Promise<unknown>) {
+  return vi
+    .spyOn(ChunkLoader.prototype as unknown as { importChunk: typeof impl }, "importChunk")
+    .mockImplementation(impl);
+}
+
+describe("ChunkLoader recovery", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let errors: ChunkErrorDetail[];
+  const onError = (e: Event) => errors.push((e as CustomEvent<ChunkErrorDetail>).detail);
+
+  beforeEach(() => {
+    errors = [];
+    window.addEventListener("luna:chunkerror", onError);
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    window.removeEventListener("luna:chunkerror", onError);
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  test("retries failed imports with a fresh URL", async () => {
+    const loader = new ChunkLoader({ retryDelay: 0 });
+    await loader.init(manifest("1", "home-abc.js"));
+    const importChunk = spyImport(async (url) => {
+      if (!url.includes("retry=2")) throw new Error("network");
+      return { url };
+    });
+
+    await expect(loader.loadChunk("home")).resolves.toEqual({
+      url: "/_luna/home-abc.js?retry=2",
+    });
+    expect(importChunk.mock.calls.map(([url]) => url)).toEqual([
+      "/_luna/home-abc.js",
+      "/_luna/home-abc.js?retry=1",
+      "/_luna/home-abc.js?retry=2",
+    ]);
+    expect(loader.isLoaded("home")).toBe(true);
+    expect(errors).toEqual([]);
+  });
+
+  test("passes SRI hashes from the manifest", async () => {
+    const loader = new ChunkLoader();
+    await loader.init({
+      ...manifest("1", "home-abc.js"),
+      integrity: { home: "sha384-abc" },
+    });
+    const importChunk = spyImport(async () => ({}));
+
+    await loader.loadChunk("home");
+    expect(importChunk).toHaveBeenCalledWith("/_luna/home-abc.js", "sha384-abc");
+  });
+
+  test("switches to a newly deployed manifest when a chunk is gone", async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(JSON.stringify(manifest("1", "home-old.js"))))
+      .mockResolvedValueOnce(new Response(JSON.stringify(manifest("2", "home-new.js"))));
+    const loader = new ChunkLoader({ retryDelay: 0 });
+    await loader.init("/_luna/manifest.json");
+    const importChunk = spyImport(async (url) => {
+      if (url.includes("home-old")) throw new Error("404");
+      return { url };
+    });
+
+    await expect(loader.loadChunk("home")).resolves.toEqual({ url: "/_luna/home-new.js" });
+    expect(importChunk).toHaveBeenCalledTimes(2);
+    expect(fetchMock).toHaveBeenLastCalledWith("/_luna/manifest.json", { cache: "no-store" });
+  });
+
+  test("loads v1 matching when a refreshed manifest is v1", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ ...manifest("1", "home-old.js"), version: 2, segments: {} }))
+      )
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({ ...manifest("2", "home-new.js"), routes: { "/app/*": ["home"] } })
+        )
+      );
+    const loader = new ChunkLoader({ retryDelay: 0 });
+    await loader.init("/_luna/manifest.json");
+    spyImport(async (url) => {
+      if (url.includes("home-old")) throw new Error("404");
+      return { url };
+    });
+
+    await loader.loadChunk("home");
+    expect(loader.isHierarchical()).toBe(false);
+    expect(loader.getChunksForPath("/app/settings")).toEqual(["home"]);
+  });
+
+  test("removes the verifying modulepreload once the import settles", async () => {
+    vi.spyOn(DOMTokenList.prototype, "supports").mockReturnValue(true);
+    const loader = new ChunkLoader({ retries: 0 });
+    await loader.init({ ...manifest("1", "missing-abc.js"), integrity: { home: "sha384-abc" } });
+
+    const loading = loader.loadChunk("home");
+    const link = document.head.querySelector<HTMLLinkElement>('link[rel="modulepreload"]');
+    expect(link?.integrity).toBe("sha384-abc");
+    link!.dispatchEvent(new Event("load"));
+
+    await expect(loading).rejects.toThrow();
+    expect(document.head.querySelector('link[rel="modulepreload"]')).toBeNull();
+  });
+
+  test("dispatches luna:chunkerror after the last retry", async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(JSON.stringify(manifest("1", "home-abc.js"))))
+      .mockResolvedValueOnce(new Response(JSON.stringify(manifest("1", "home-abc.js"))));
+    const loader = new ChunkLoader({ retries: 1, retryDelay: 0 });
+    await loader.init("/_luna/manifest.json");
+    const failure = new Error("network");
+    spyImport(async () => {
+      throw failure;
+    });
+
+    await expect(loader.loadChunk("home")).rejects.toBe(failure);
+    expect(errors).toEqual([
+      { chunk: "home", url: "/_luna/home-abc.js", error: failure, versionSkew: false },
+    ]);
+    expect(loader.isLoaded("home")).toBe(false);
+  });
+});
+
+describe("ChunkLoader manifest v3", () => {
+  const v3 = {
+    version: 3 as const,
+    base: "/_luna/",
+    segments: {},
+    chunks: { home: "home-abc.js", ui: "ui-def.js", signals: "signals-123.js" },
+    routes: { "/": ["home"], "/about": ["ui"] },
+    css: { "/": ["home.css"] },
+    imports: { home: ["ui"], ui: ["signals"] },
+  };
+
+  beforeEach(() => {
+    document.head.innerHTML = "";
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test("preloads the import graph and applies stylesheets before resolving", async () => {
+    const loader = new ChunkLoader();
+    await loader.init(v3);
+    spyImport(async () => ({}));
+
+    let done = false;
+    const loading = loader.loadForPath("/").then((chunks) => {
+      done = true;
+      return chunks;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const preloads = Array.from(
+      document.head.querySelectorAll<HTMLLinkElement>('link[rel="modulepreload"]'),
+      (link) => link.getAttribute("href")
+    );
+    expect(preloads).toEqual(["/_luna/home-abc.js", "/_luna/ui-def.js", "/_luna/signals-123.js"]);
+
+    const stylesheet = document.head.querySelector<HTMLLinkElement>('link[rel="stylesheet"]');
+    expect(stylesheet?.getAttribute("href")).toBe("/_luna/home.css");
+    expect(done).toBe(false);
+
+    stylesheet!.dispatchEvent(new Event("load"));
+    await expect(loading).resolves.toEqual(["home"]);
+  });
+
+  test("prefetch preloads modules and stylesheets without applying them", async () => {
+    const loader = new ChunkLoader();
+    await loader.init(v3);
+
+    loader.prefetch("/");
+    loader.prefetch("/");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(document.head.querySelectorAll('link[rel="modulepreload"]')).toHaveLength(3);
+    expect(document.head.querySelector('link[rel="stylesheet"]')).toBeNull();
+    const style = document.head.querySelector<HTMLLinkElement>('link[rel="preload"]');
+    expect(style?.getAttribute("href")).toBe("/_luna/home.css");
+    expect(style?.as).toBe("style");
+  });
+
+  test("still matches v2 manifests", async () => {
+    const loader = new ChunkLoader();
+    await loader.init({ ...v3, version: 2, css: undefined, imports: undefined });
+
+    await expect(loader.matchPath("/about")).resolves.toEqual({
+      chunks: ["ui"],
+      css: undefined,
+      params: {},
+    });
+    expect(loader.isHierarchical()).toBe(true);
+  });
+});
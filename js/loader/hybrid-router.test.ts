@@ -0,0 +1,51 @@
+import { beforeAll, beforeEach, describe, expect, test, vi } from "vitest";
+import { createFallbackNavigationRouter } from "./src/router/navigation-fallback.ts";
+import { setNavigationRouter, type NavigationRouter } from "./src/router/navigation.ts";
+import { HybridRouter } from "./src/router/hybrid.ts";
+
+describe("HybridRouter view transitions", () => {
+  const directions: string[] = [];
+  let router: NavigationRouter;
+
+  beforeAll(() => {
+    (document as unknown as { startViewTransition: unknown }).startViewTransition = (
+      update: () => void
+    ) => {
+      const types = new Set<string>();
+      const updateCallbackDone = Promise.resolve().then(() => {
+        directions.push(...types);
+        update();
+      });
+      return { updateCallbackDone, finished: updateCallbackDone, types };
+    };
+    vi.stubGlobal(
+      "fetch",
+      vi.fn((url: string) =>
+        Promise.resolve(new Response(`<template data-outlet="main"><p>${url}</p></template>`))
+      )
+    );
+    router = createFallbackNavigationRouter();
+    setNavigationRouter(router);
+    history.replaceState(null, "", "/");
+    new HybridRouter({ viewTransitions: true, scrollRestoration: false }).start();
+  });
+
+  beforeEach(() => {
+    directions.length = 0;
+    document.body.innerHTML = `<main data-outlet="main"></main>`;
+  });
+
+  const content = () => document.querySelector("main")?.innerHTML;
+
+  test("tells back from forward on popstate", async () => {
+    await router.navigate("/a");
+    await router.navigate("/b");
+
+    history.back();
+    await vi.waitFor(() => expect(content()).toBe("<p>/a</p>"));
+    history.forward();
+    await vi.waitFor(() => expect(content()).toBe("<p>/b</p>"));
+
+    expect(directions).toEqual(["forward", "forward", "back", "forward"]);
+  });
+});
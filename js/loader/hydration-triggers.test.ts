@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { setupTrigger } from "./src/lib.ts";
+
+describe("setupTrigger", () => {
+  let island: HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="menu"><button>Open</button></div>';
+    island = document.getElementById("menu")!;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    history.replaceState(null, "", "/");
+  });
+
+  test("interaction hydrates on first touch and replays the events", async () => {
+    const button = island.querySelector("button")!;
+    const seen: string[] = [];
+    let finish!: () => void;
+    const hydrate = vi.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          finish = () => {
+            button.addEventListener("pointerdown", (e) => seen.push(`${e.type}:${(e as PointerEvent).pointerId}`));
+            button.addEventListener("click", (e) => seen.push(e.type));
+            resolve();
+          };
+        })
+    );
+    setupTrigger(island, "interaction", hydrate);
+
+    button.dispatchEvent(new PointerEvent("pointerdown", { bubbles: true, pointerId: 7 }));
+    button.dispatchEvent(new MouseEvent("click", { bubbles: true }));
+    button.dispatchEvent(new KeyboardEvent("keydown", { bubbles: true, key: "Enter" }));
+    expect(hydrate).toHaveBeenCalledTimes(1);
+    expect(seen).toEqual([]);
+
+    finish();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(seen).toEqual(["pointerdown:7", "click"]);
+  });
+
+  test("clicks during hydration activate submit buttons once", async () => {
+    island.innerHTML = '<form><button type="submit">Save</button></form>';
+    const button = island.querySelector("button")!;
+    let submits = 0;
+    island.querySelector("form")!.addEventListener("submit", (e) => {
+      submits++;
+      e.preventDefault();
+    });
+    let finish!: () => void;
+    setupTrigger(island, "interaction", () => new Promise<void>((resolve) => (finish = resolve)));
+
+    button.dispatchEvent(new PointerEvent("pointerdown", { bubbles: true }));
+    button.click();
+    expect(submits).toBe(0);
+
+    finish();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(submits).toBe(1);
+  });
+
+  test("failed hydrations do not leave an unhandled rejection", async () => {
+    const button = island.querySelector("button")!;
+    const unhandled = vi.fn();
+    process.on("unhandledRejection", unhandled);
+    setupTrigger(island, "interaction", () => Promise.reject(new Error("chunk failed")));
+
+    button.dispatchEvent(new PointerEvent("pointerdown", { bubbles: true }));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    process.off("unhandledRejection", unhandled);
+
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+
+  test("composite triggers hydrate once on whichever fires first", () => {
+    vi.useFakeTimers();
+    const hydrate = vi.fn();
+    setupTrigger(island, "event:open-menu|timeout:500", hydrate);
+
+    window.dispatchEvent(new Event("open-menu"));
+    vi.advanceTimersByTime(500);
+    island.dispatchEvent(new Event("open-menu"));
+
+    expect(hydrate).toHaveBeenCalledTimes(1);
+  });
+
+  test("timeout hydrates after the delay", () => {
+    vi.useFakeTimers();
+    const hydrate = vi.fn();
+    setupTrigger(island, "timeout:300", hydrate);
+
+    vi.advanceTimersByTime(299);
+    expect(hydrate).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(hydrate).toHaveBeenCalledTimes(1);
+  });
+
+  test("hash hydrates when the fragment matches, now or later", () => {
+    const later = vi.fn();
+    const now = vi.fn();
+    setupTrigger(island, "hash:menu", later);
+    expect(later).not.toHaveBeenCalled();
+
+    history.replaceState(null, "", "#menu");
+    window.dispatchEvent(new HashChangeEvent("hashchange"));
+    expect(later).toHaveBeenCalledTimes(1);
+
+    setupTrigger(island, "hash:#menu", now);
+    expect(now).toHaveBeenCalledTimes(1);
+  });
+
+  test("idle falls back to a timer without requestIdleCallback", () => {
+    vi.useFakeTimers();
+    vi.stubGlobal("requestIdleCallback", undefined);
+    const hydrate = vi.fn();
+    setupTrigger(island, "idle", hydrate);
+
+    vi.runAllTimers();
+    expect(hydrate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { PageCache, getPageCache, responseTTL } from "./src/router/page-cache.ts";
+
+describe("PageCache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("evicts the least recently used entry beyond maxEntries", () => {
+    const cache = new PageCache({ maxEntries: 2 });
+    cache.set("/a", "A");
+    cache.set("/b", "B");
+    cache.get("/a");
+    cache.set("/c", "C");
+
+    expect(cache.get("/a")).toBe("A");
+    expect(cache.get("/b")).toBeUndefined();
+    expect(cache.get("/c")).toBe("C");
+    expect(cache.size).toBe(2);
+  });
+
+  test("expires entries after their TTL", () => {
+    vi.useFakeTimers();
+    const cache = new PageCache({ defaultTTL: 1000 });
+    cache.set("/a", "A");
+    cache.set("/b", "B", 5000);
+
+    vi.advanceTimersByTime(2000);
+
+    expect(cache.get("/a")).toBeUndefined();
+    expect(cache.get("/b")).toBe("B");
+  });
+
+  test("normalizes keys and invalidates by path prefix", () => {
+    const cache = new PageCache();
+    cache.set("/posts/a#comments", "A");
+    cache.set("http://localhost:3000/posts/b", "B");
+    cache.set("/posts?page=2", "Page 2");
+    cache.set("/posts-archive", "Archive");
+    cache.set("/about", "About");
+
+    expect(cache.get("/posts/a")).toBe("A");
+
+    cache.invalidate("/posts");
+
+    expect(cache.has("/posts/a")).toBe(false);
+    expect(cache.has("/posts/b")).toBe(false);
+    expect(cache.has("/posts?page=2")).toBe(false);
+    expect(cache.get("/posts-archive")).toBe("Archive");
+    expect(cache.get("/about")).toBe("About");
+
+    cache.invalidate();
+    expect(cache.size).toBe(0);
+  });
+
+  test("is shared through __SOL_CACHE__", () => {
+    expect(getPageCache()).toBe(getPageCache());
+    expect((window as unknown as { __SOL_CACHE__: unknown }).__SOL_CACHE__).toBe(getPageCache());
+  });
+});
+
+describe("responseTTL", () => {
+  test("reads max-age from the fragment header before Cache-Control", () => {
+    expect(
+      responseTTL(
+        new Headers({ "X-Sol-Fragment-Response": "true; max-age=30", "Cache-Control": "max-age=600" })
+      )
+    ).toBe(30_000);
+    expect(responseTTL(new Headers({ "Cache-Control": "public, max-age=600" }))).toBe(600_000);
+    expect(responseTTL(new Headers({ "Cache-Control": "s-maxage=600" }))).toBeUndefined();
+  });
+
+  test("disables caching for no-store and no-cache", () => {
+    expect(responseTTL(new Headers({ "Cache-Control": "no-store" }))).toBe(0);
+    expect(responseTTL(new Headers({ "Cache-Control": "private, no-cache" }))).toBe(0);
+    expect(responseTTL(new Headers())).toBeUndefined();
+  });
+});
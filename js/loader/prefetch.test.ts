@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { PrefetchPolicy, getPrefetchPolicy } from "./src/router/prefetch.ts";
+
+describe("PrefetchPolicy", () => {
+  let unregister: (() => void)[] = [];
+  const register = (policy: PrefetchPolicy, ...args: Parameters<PrefetchPolicy["register"]>) => {
+    unregister.push(policy.register(...args));
+  };
+
+  beforeEach(() => {
+    document.head.innerHTML = "";
+    document.body.innerHTML = "";
+  });
+
+  afterEach(() => {
+    unregister.forEach((fn) => fn());
+    unregister = [];
+    vi.unstubAllGlobals();
+  });
+
+  test("prefetches eager links right away and intent links on focus", async () => {
+    document.body.innerHTML = [
+      `<a data-sol-link data-sol-prefetch="eager" href="/eager?tab=1">Eager</a>`,
+      `<a data-sol-link data-sol-prefetch href="/hover">Hover</a>`,
+      `<a data-sol-link data-sol-prefetch="none" href="/never">Never</a>`,
+      `<a data-sol-link data-sol-prefetch="eager" href="https://example.com/">External</a>`,
+    ].join("");
+    const prefetch = vi.fn();
+    register(new PrefetchPolicy(), { selector: "[data-sol-link]", prefetch });
+
+    expect(prefetch.mock.calls).toEqual([["/eager?tab=1"]]);
+
+    document.querySelector<HTMLElement>('[href="/hover"]')!.focus();
+    document.querySelector<HTMLElement>('[href="/never"]')!.focus();
+    await vi.waitFor(() => expect(prefetch).toHaveBeenCalledTimes(2));
+    expect(prefetch).toHaveBeenLastCalledWith("/hover");
+  });
+
+  test("prefetches viewport links once they intersect", () => {
+    let observed: Element[] = [];
+    let notify: (entries: Partial<IntersectionObserverEntry>[]) => void = () => {};
+    vi.stubGlobal(
+      "IntersectionObserver",
+      class {
+        constructor(callback: (entries: Partial<IntersectionObserverEntry>[]) => void) {
+          notify = callback;
+        }
+        observe(el: Element) {
+          observed.push(el);
+        }
+        unobserve(el: Element) {
+          observed = observed.filter((o) => o !== el);
+        }
+        disconnect() {}
+      }
+    );
+    document.body.innerHTML = `<a data-sol-link data-sol-prefetch="viewport" href="/below">Below</a>`;
+    const prefetch = vi.fn();
+    register(new PrefetchPolicy(), { selector: "[data-sol-link]", prefetch });
+    const link = document.querySelector("a")!;
+
+    expect(observed).toEqual([link]);
+    expect(prefetch).not.toHaveBeenCalled();
+
+    notify([{ target: link, isIntersecting: true }]);
+
+    expect(prefetch).toHaveBeenCalledWith("/below");
+    expect(observed).toEqual([]);
+  });
+
+  test("runs every registration for a link, within the concurrency limit", async () => {
+    document.body.innerHTML = ["/a", "/b"]
+      .map((href) => `<a data-sol-link data-sol-prefetch="eager" href="${href}">${href}</a>`)
+      .join("");
+    const pending: (() => void)[] = [];
+    const slow = () => new Promise<void>((resolve) => pending.push(resolve));
+    const data = vi.fn(slow);
+    const chunks = vi.fn(slow);
+    const policy = new PrefetchPolicy({ concurrency: 2 });
+    register(policy, { selector: "[data-sol-link]", prefetch: data });
+    register(policy, { selector: "a[href]", defaultStrategy: "none", prefetch: chunks });
+
+    expect(data.mock.calls).toEqual([["/a"], ["/b"]]);
+    expect(chunks).not.toHaveBeenCalled();
+
+    pending.shift()!();
+    await vi.waitFor(() => expect(chunks).toHaveBeenCalledWith("/a"));
+    expect(chunks).toHaveBeenCalledTimes(1);
+  });
+
+  test("skips prefetching when the user saves data", () => {
+    vi.stubGlobal("navigator", { ...navigator, connection: { saveData: true } });
+    document.body.innerHTML = `<a data-sol-link data-sol-prefetch="eager" href="/a">A</a>`;
+    const prefetch = vi.fn();
+    register(new PrefetchPolicy(), { selector: "[data-sol-link]", prefetch });
+
+    expect(prefetch).not.toHaveBeenCalled();
+  });
+
+  test("prefetches eager links once across DOM changes", async () => {
+    document.body.innerHTML = `<a data-sol-link data-sol-prefetch="eager" href="/a">A</a>`;
+    const prefetch = vi.fn();
+    register(new PrefetchPolicy(), { selector: "[data-sol-link]", prefetch });
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    await settle();
+    document.body.append(document.createElement("p"));
+    await settle();
+    document.body.insertAdjacentHTML(
+      "beforeend",
+      `<a data-sol-link data-sol-prefetch="eager" href="/a">Again</a>` +
+        `<a data-sol-link data-sol-prefetch="eager" href="/b">B</a>`
+    );
+
+    await vi.waitFor(() => expect(prefetch).toHaveBeenCalledWith("/b"));
+    expect(prefetch.mock.calls).toEqual([["/a"], ["/b"]]);
+  });
+
+  test("cancels a hover prefetch when the pointer leaves first", () => {
+    vi.useFakeTimers();
+    document.body.innerHTML = `<a data-sol-link data-sol-prefetch href="/hover"><span>Hover</span></a>`;
+    const prefetch = vi.fn();
+    register(new PrefetchPolicy({ intentDelay: 100 }), { selector: "[data-sol-link]", prefetch });
+    const link = document.querySelector("a")!;
+    const hover = (el: Element, type: string) => el.dispatchEvent(new MouseEvent(type));
+
+    hover(link, "mouseenter");
+    hover(link, "mouseleave");
+    vi.advanceTimersByTime(100);
+    expect(prefetch).not.toHaveBeenCalled();
+
+    hover(link, "mouseenter");
+    hover(link.firstElementChild!, "mouseenter");
+    hover(link.firstElementChild!, "mouseleave");
+    vi.advanceTimersByTime(100);
+    vi.useRealTimers();
+    expect(prefetch).toHaveBeenCalledOnce();
+  });
+
+  test("getPrefetchPolicy applies options to the shared policy", () => {
+    vi.useFakeTimers();
+    document.body.innerHTML = `<a data-sol-link data-sol-prefetch href="/hover">Hover</a>`;
+    const prefetch = vi.fn();
+    const policy = getPrefetchPolicy();
+    register(getPrefetchPolicy({ intentDelay: 300 }), { selector: "[data-sol-link]", prefetch });
+
+    document.querySelector("a")!.dispatchEvent(new MouseEvent("mouseenter"));
+    vi.advanceTimersByTime(100);
+    expect(prefetch).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(200);
+    vi.useRealTimers();
+
+    expect(prefetch).toHaveBeenCalledWith("/hover");
+    policy.disconnect();
+    delete (window as { __LUNA_PREFETCH_POLICY__?: PrefetchPolicy }).__LUNA_PREFETCH_POLICY__;
+  });
+
+  test("adds <link rel=prefetch> hints and picks up links added later", async () => {
+    const prefetch = vi.fn();
+    register(new PrefetchPolicy(), { selector: "[data-sol-link]", hint: "link", prefetch });
+
+    document.body.innerHTML = `<a data-sol-link data-sol-prefetch="eager" href="/later">Later</a>`;
+
+    await vi.waitFor(() => expect(prefetch).toHaveBeenCalledWith("/later"));
+    expect(document.head.querySelector('link[rel="prefetch"]')?.getAttribute("href")).toBe("/later");
+  });
+});
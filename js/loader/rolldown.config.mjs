@@ -5,7 +5,6 @@ export default defineConfig([
   {
     input: {
       'wc-loader': './src/wc-loader.ts',
-      'sol-nav': './src/sol-nav.ts',
       'lib': './src/lib.ts',
       'hydration': './src/hydration.ts',
       // Boot runtime (chunk loader + minimal router)
@@ -38,6 +37,16 @@ export default defineConfig([
       legalComments: 'none',
     },
   },
+  // sol-nav is copied alone into static dirs, so it cannot share chunks
+  {
+    input: './src/sol-nav.ts',
+    output: {
+      file: './dist/sol-nav.js',
+      format: 'esm',
+      minify: true,
+      legalComments: 'none',
+    },
+  },
   // HMR client (dev-only, injected by sol dev server)
   {
     input: './src/hmr-client.ts',
@@ -33,7 +33,10 @@ describe("sol-nav security", () => {
     const notCanceled = link.dispatchEvent(event);
 
     expect(notCanceled).toBe(false);
-    expect(fetchMock).toHaveBeenCalledWith("/next", { headers: { "X-Sol-Fragment": "true" } });
+    expect(fetchMock).toHaveBeenCalledWith("/next", {
+      headers: { "X-Sol-Fragment": "true" },
+      signal: expect.any(AbortSignal),
+    });
   });
 
   test("javascript: link is not intercepted", () => {
@@ -0,0 +1,634 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, test, vi } from "vitest";
+
+describe("sol-nav forms", () => {
+  const fetchMock = vi.fn();
+
+  const fragment = (html: string, url: string, redirected = false) => {
+    const res = new Response(html, {
+      status: redirected ? 200 : 422,
+      headers: { "X-Sol-Fragment-Response": "true" },
+    });
+    Object.defineProperty(res, "redirected", { value: redirected });
+    Object.defineProperty(res, "url", { value: url });
+    return res;
+  };
+
+  const submitForm = (form: HTMLFormElement) =>
+    form.dispatchEvent(new Event("submit", { bubbles: true, cancelable: true }));
+
+  beforeAll(async () => {
+    vi.stubGlobal("fetch", fetchMock);
+    await import("./src/sol-nav.ts");
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    history.replaceState({}, "", "/signup");
+  });
+
+  test("data-sol-form posts over fetch and swaps the outlet", async () => {
+    fetchMock.mockResolvedValue(
+      fragment(
+        `<template data-sol-outlet="main"><p>Welcome</p></template>`,
+        "http://localhost:3000/welcome",
+        true
+      )
+    );
+    document.body.innerHTML = `<main data-sol-outlet="main"><form id="f" data-sol-form method="post" action="/signup"><input name="email" value="a@example.com"></form></main>`;
+    const form = document.getElementById("f") as HTMLFormElement;
+
+    const notCanceled = submitForm(form);
+    await vi.waitFor(() =>
+      expect(document.querySelector("main")?.innerHTML).toBe("<p>Welcome</p>")
+    );
+
+    expect(notCanceled).toBe(false);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("/signup");
+    expect(init.method).toBe("POST");
+    expect(init.headers).toEqual({ "X-Sol-Fragment": "true" });
+    expect((init.body as FormData).get("email")).toBe("a@example.com");
+    expect(location.pathname).toBe("/welcome");
+  });
+
+  test("rejected submissions re-render in place without a history entry", async () => {
+    fetchMock.mockResolvedValue(
+      fragment(
+        `<template data-sol-outlet="main"><p>Invalid email</p></template>`,
+        "http://localhost:3000/signup"
+      )
+    );
+    document.body.innerHTML = `<main data-sol-outlet="main"><form id="f" data-sol-form method="post"><input name="email" value="nope"></form></main>`;
+    const length = history.length;
+
+    submitForm(document.getElementById("f") as HTMLFormElement);
+    await vi.waitFor(() =>
+      expect(document.querySelector("main")?.innerHTML).toBe("<p>Invalid email</p>")
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe("/signup");
+    expect(history.length).toBe(length);
+  });
+
+  test("rejected actions without a page report their errors as an event", async () => {
+    fetchMock.mockResolvedValue(
+      Response.json({ errors: { email: "Invalid email" }, values: { email: "nope" } }, { status: 422 })
+    );
+    document.body.innerHTML = `<main data-sol-outlet="main"><form id="f" data-sol-form method="post"><input name="email" value="nope"></form></main>`;
+    const form = document.getElementById("f") as HTMLFormElement;
+    const submit = vi.spyOn(form, "submit").mockImplementation(() => {});
+    const details: Record<string, unknown>[] = [];
+    const listener = (e: Event) => details.push((e as CustomEvent).detail);
+    document.addEventListener("sol:action-error", listener);
+
+    submitForm(form);
+    await vi.waitFor(() => expect(details).toHaveLength(1));
+    document.removeEventListener("sol:action-error", listener);
+
+    expect(details[0]).toMatchObject({
+      form,
+      errors: { email: "Invalid email" },
+      values: { email: "nope" },
+    });
+    expect(submit).not.toHaveBeenCalled();
+    expect(document.querySelector("main form")).toBe(form);
+  });
+
+  test("submissions invalidate the page cache", async () => {
+    const cache = (window as unknown as { __SOL_CACHE__: { set(url: string, html: string): void; has(url: string): boolean } }).__SOL_CACHE__;
+    cache.set("/posts", "<p>stale</p>");
+    fetchMock.mockResolvedValue(
+      fragment(`<template data-sol-outlet="main"><p>Saved</p></template>`, "http://localhost:3000/posts", true)
+    );
+    document.body.innerHTML = `<main data-sol-outlet="main"><form id="f" data-sol-form method="post" action="/posts"></form></main>`;
+
+    submitForm(document.getElementById("f") as HTMLFormElement);
+    await vi.waitFor(() => expect(document.querySelector("main")?.innerHTML).toBe("<p>Saved</p>"));
+
+    expect(cache.has("/posts")).toBe(false);
+  });
+
+  test("forms without data-sol-form are not intercepted", () => {
+    document.body.innerHTML = `<form id="f" method="post" action="/signup"></form>`;
+    const form = document.getElementById("f") as HTMLFormElement;
+    form.addEventListener("submit", (e) => e.preventDefault());
+
+    submitForm(form);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("sol-nav navigation", () => {
+  const fetchMock = vi.fn();
+  const navigate = (url: string) =>
+    (window as unknown as { __SOL_NAVIGATE__: (url: string) => Promise<void> }).__SOL_NAVIGATE__(url);
+
+  beforeAll(async () => {
+    vi.stubGlobal("fetch", fetchMock);
+    await import("./src/sol-nav.ts");
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    history.replaceState({}, "", "/");
+    (window as unknown as { __SOL_CACHE__: { clear(): void } }).__SOL_CACHE__.clear();
+  });
+
+  test("fragment head assets replace the previous page's head tags", async () => {
+    document.head.innerHTML = [
+      `<meta name="description" content="Site">`,
+      `<meta property="og:title" content="Old" data-sol-head>`,
+      `<link rel="canonical" href="/old" data-sol-head>`,
+      `<script type="application/ld+json" data-sol-head>{"old":true}</script>`,
+    ].join("");
+    document.body.innerHTML = `<main data-sol-outlet="main"></main>`;
+    fetchMock.mockResolvedValue(
+      new Response(
+        `<template data-sol-outlet="main"><p>Post</p></template>` +
+          `<template data-sol-head-assets>` +
+          `<meta name="description" content="Post" data-sol-head>` +
+          `<link rel="canonical" href="/posts/a" data-sol-head>` +
+          `<script type="application/ld+json" data-sol-head>{"@type":"BlogPosting"}</script>` +
+          `</template>`,
+        { headers: { "X-Sol-Fragment-Response": "true" } }
+      )
+    );
+
+    await navigate("/posts/a");
+
+    const head = document.head;
+    expect(head.querySelectorAll('meta[name="description"]')).toHaveLength(1);
+    expect(head.querySelector('meta[name="description"]')?.getAttribute("content")).toBe("Post");
+    expect(head.querySelector('meta[property="og:title"]')).toBeNull();
+    expect(head.querySelectorAll('link[rel="canonical"]')).toHaveLength(1);
+    expect(head.querySelector('link[rel="canonical"]')?.getAttribute("href")).toBe("/posts/a");
+    expect(head.querySelector('script[type="application/ld+json"]')?.textContent).toBe(
+      '{"@type":"BlogPosting"}'
+    );
+  });
+
+  test("fragments without head assets drop the previous page's head tags", async () => {
+    document.head.innerHTML = [
+      `<meta name="description" content="Site">`,
+      `<meta property="og:title" content="Old" data-sol-head>`,
+      `<link rel="canonical" href="/old" data-sol-head>`,
+    ].join("");
+    document.body.innerHTML = `<main data-sol-outlet="main"></main>`;
+    fetchMock.mockResolvedValue(
+      new Response(`<template data-sol-outlet="main"><p>About</p></template>`, {
+        headers: { "X-Sol-Fragment-Response": "true" },
+      })
+    );
+
+    await navigate("/about");
+
+    expect(document.head.querySelector("[data-sol-head]")).toBeNull();
+    expect(document.head.querySelector('meta[name="description"]')).not.toBeNull();
+  });
+
+  test("caches fragments for the lifetime the server allows", async () => {
+    const cache = (window as unknown as { __SOL_CACHE__: { get(url: string): string | undefined } }).__SOL_CACHE__;
+    document.body.innerHTML = `<main data-sol-outlet="main"></main>`;
+    const page = (html: string, cacheControl: string) =>
+      new Response(`<template data-sol-outlet="main">${html}</template>`, {
+        headers: { "X-Sol-Fragment-Response": "true", "Cache-Control": cacheControl },
+      });
+    fetchMock
+      .mockResolvedValueOnce(page("<p>Docs</p>", "max-age=60"))
+      .mockResolvedValueOnce(page("<p>Inbox</p>", "no-store"));
+
+    await navigate("/docs");
+    await navigate("/inbox");
+
+    expect(cache.get("/docs")).toContain("<p>Docs</p>");
+    expect(cache.get("/inbox")).toBeUndefined();
+  });
+
+  test("data-sol-no-cache links bypass the page cache", async () => {
+    const cache = (window as unknown as { __SOL_CACHE__: { get(url: string): string | undefined; set(url: string, html: string): void } }).__SOL_CACHE__;
+    cache.set("/live", `<template data-sol-outlet="main"><p>cached</p></template>`);
+    document.body.innerHTML = `<main data-sol-outlet="main"></main><a id="l" data-sol-link data-sol-no-cache href="/live">Live</a>`;
+    fetchMock.mockResolvedValue(
+      new Response(`<template data-sol-outlet="main"><p>fresh</p></template>`, {
+        headers: { "X-Sol-Fragment-Response": "true" },
+      })
+    );
+    const swaps: boolean[] = [];
+    const onSwap = (e: Event) => swaps.push((e as CustomEvent<{ rerender: boolean }>).detail.rerender);
+    document.addEventListener("sol:after-swap", onSwap);
+
+    document.getElementById("l")!.click();
+    await vi.waitFor(() => expect(document.querySelector("main")?.innerHTML).toBe("<p>fresh</p>"));
+    document.removeEventListener("sol:after-swap", onSwap);
+
+    expect(swaps).toEqual([false]);
+    expect(cache.get("/live")).toContain("<p>cached</p>");
+  });
+
+  test("data-sol-prefetch links are prefetched into the page cache", async () => {
+    const cache = (window as unknown as { __SOL_CACHE__: { get(url: string): string | undefined } }).__SOL_CACHE__;
+    fetchMock.mockResolvedValue(new Response(`<template data-sol-outlet="main"><p>Pricing</p></template>`));
+    document.body.innerHTML = `<a data-sol-link data-sol-prefetch="intent" href="/pricing">Pricing</a>`;
+
+    document.querySelector("a")!.dispatchEvent(new Event("touchstart", { bubbles: true }));
+
+    await vi.waitFor(() => expect(cache.get("/pricing")).toContain("<p>Pricing</p>"));
+    expect(fetchMock).toHaveBeenCalledWith("/pricing", { headers: { "X-Sol-Fragment": "true" } });
+  });
+
+  test("error fragments swap the outlet", async () => {
+    document.body.innerHTML = `<main data-sol-outlet="main"><p>Home</p></main>`;
+    fetchMock.mockResolvedValue(
+      new Response(`<template data-sol-outlet="main"><p>Not found</p></template>`, {
+        status: 404,
+        headers: { "X-Sol-Fragment-Response": "true" },
+      })
+    );
+
+    await navigate("/missing");
+
+    expect(document.querySelector("main")?.innerHTML).toBe("<p>Not found</p>");
+    expect(location.pathname).toBe("/missing");
+  });
+
+  test("responses without an outlet fall back to a full page load", async () => {
+    document.body.innerHTML = `<main data-sol-outlet="main"><p>Home</p></main>`;
+    fetchMock.mockResolvedValue(new Response("404 Not Found", { status: 404 }));
+
+    await navigate("/gone");
+
+    // jsdom does not navigate; the history entry is simply never pushed
+    expect(document.querySelector("main")?.innerHTML).toBe("<p>Home</p>");
+    expect(location.pathname).toBe("/");
+  });
+
+  test("the latest navigation wins and aborts the one in flight", async () => {
+    document.body.innerHTML = `<main data-sol-outlet="main"><p>Home</p></main>`;
+    let firstSignal: AbortSignal | undefined;
+    fetchMock
+      .mockImplementationOnce((_url: string, init: RequestInit) => {
+        firstSignal = init.signal ?? undefined;
+        return new Promise((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () =>
+            reject(new DOMException("Aborted", "AbortError"))
+          );
+        });
+      })
+      .mockResolvedValueOnce(
+        new Response(`<template data-sol-outlet="main"><p>Second</p></template>`)
+      );
+    const errors: Event[] = [];
+    const onError = (e: Event) => errors.push(e);
+    document.addEventListener("sol:navigate-error", onError);
+
+    const first = navigate("/slow");
+    const second = navigate("/fast");
+    await Promise.all([first, second]);
+    document.removeEventListener("sol:navigate-error", onError);
+
+    expect(firstSignal?.aborted).toBe(true);
+    expect(errors).toHaveLength(0);
+    expect(document.querySelector("main")?.innerHTML).toBe("<p>Second</p>");
+    expect(location.pathname).toBe("/fast");
+  });
+
+  test("dispatches lifecycle events in order", async () => {
+    document.body.innerHTML = `<main data-sol-outlet="main"></main>`;
+    fetchMock.mockResolvedValue(new Response(`<template data-sol-outlet="main"><p>A</p></template>`));
+    const events: string[] = [];
+    const types = ["sol:before-navigate", "sol:navigate-start", "sol:after-swap"];
+    const record = (e: Event) =>
+      events.push(`${e.type} ${(e as CustomEvent<{ url: string }>).detail.url}`);
+    types.forEach((type) => document.addEventListener(type, record));
+
+    await navigate("/a");
+    types.forEach((type) => document.removeEventListener(type, record));
+
+    expect(events).toEqual([
+      "sol:before-navigate /a",
+      "sol:navigate-start /a",
+      "sol:after-swap /a",
+    ]);
+  });
+
+  test("canceling sol:before-navigate keeps the current page", async () => {
+    const guard = (e: Event) => e.preventDefault();
+    document.addEventListener("sol:before-navigate", guard);
+
+    await navigate("/elsewhere");
+    document.removeEventListener("sol:before-navigate", guard);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(location.pathname).toBe("/");
+  });
+
+  test("sol:navigate-error reports failed navigations", async () => {
+    fetchMock.mockRejectedValue(new TypeError("offline"));
+    let reported: unknown;
+    const onError = (e: Event) => {
+      reported = (e as CustomEvent<{ error: unknown }>).detail.error;
+      // Stay on the page instead of falling back to a full load
+      e.preventDefault();
+    };
+    document.addEventListener("sol:navigate-error", onError);
+
+    await navigate("/offline");
+    document.removeEventListener("sol:navigate-error", onError);
+
+    expect(reported).toBeInstanceOf(TypeError);
+    expect(location.pathname).toBe("/");
+  });
+});
+
+describe("sol-nav with the TS server runtime", () => {
+  const fetchMock = vi.fn();
+  const navigate = (url: string) =>
+    (window as unknown as { __SOL_NAVIGATE__: (url: string) => Promise<void> }).__SOL_NAVIGATE__(url);
+  const cache = () =>
+    (window as unknown as { __SOL_CACHE__: { get(url: string): string | undefined; clear(): void } })
+      .__SOL_CACHE__;
+
+  beforeAll(async () => {
+    const { Hono } = await import("hono");
+    const { SolRoutes } = await import("../../sol/js/sol/routes.ts");
+    const { registerRoutes } = await import("../../sol/js/sol/server-runtime.ts");
+    const app = new Hono();
+    // Cast across the workspace's two hono installs
+    registerRoutes(app as never, [
+      SolRoutes.NotFound({ title: "Missing", handler: () => "<p>Not found</p>" }),
+      SolRoutes.Page({
+        path: "/posts/:slug",
+        title: "Post",
+        head: { meta: { description: "A post" } },
+        handler: ({ params }) => `<h1>${params.values.slug}</h1>`,
+      }),
+    ]);
+    fetchMock.mockImplementation((url: string, init?: RequestInit) => app.request(url, init));
+    vi.stubGlobal("fetch", fetchMock);
+    await import("./src/sol-nav.ts");
+  });
+
+  beforeEach(() => {
+    history.replaceState({}, "", "/");
+    cache().clear();
+    // The body of the runtime's default root template
+    document.body.innerHTML = `<div id="__sol__" data-sol-outlet="main"><p>Home</p></div>`;
+  });
+
+  test("swaps and caches page fragments", async () => {
+    await navigate("/posts/a");
+
+    expect(document.getElementById("__sol__")?.innerHTML).toBe("<h1>a</h1>");
+    expect(document.title).toBe("Post");
+    expect(document.head.querySelector('meta[name="description"]')?.getAttribute("content")).toBe(
+      "A post"
+    );
+    expect(location.pathname).toBe("/posts/a");
+    expect(cache().get("/posts/a")).toContain("<h1>a</h1>");
+  });
+
+  test("swaps NotFound fragments without caching them", async () => {
+    await navigate("/nope/deep");
+
+    expect(document.getElementById("__sol__")?.innerHTML).toBe("<p>Not found</p>");
+    expect(document.title).toBe("Missing");
+    expect(location.pathname).toBe("/nope/deep");
+    expect(cache().get("/nope/deep")).toBeUndefined();
+  });
+});
+
+describe("sol-nav scroll and focus", () => {
+  const fetchMock = vi.fn();
+  const scrollTo = vi.fn();
+  const scrollIntoView = vi.fn();
+  const navigate = (url: string) =>
+    (window as unknown as { __SOL_NAVIGATE__: (url: string) => Promise<void> }).__SOL_NAVIGATE__(url);
+  const page = (html: string) =>
+    new Response(`<template data-sol-outlet="main">${html}</template>`);
+  const setScrollY = (y: number) =>
+    Object.defineProperty(window, "scrollY", { value: y, configurable: true });
+
+  beforeAll(async () => {
+    vi.stubGlobal("fetch", fetchMock);
+    vi.stubGlobal("scrollTo", scrollTo);
+    Element.prototype.scrollIntoView = scrollIntoView;
+    await import("./src/sol-nav.ts");
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    scrollTo.mockReset();
+    scrollIntoView.mockReset();
+    setScrollY(0);
+    history.replaceState({}, "", "/");
+    (window as unknown as { __SOL_CACHE__: { clear(): void } }).__SOL_CACHE__.clear();
+    document.body.innerHTML = `<main data-sol-outlet="main"></main>`;
+  });
+
+  test("back/forward restores the scroll position of the history entry", async () => {
+    fetchMock.mockImplementation((url: string) =>
+      Promise.resolve(page(`<p>${new URL(url, location.href).pathname}</p>`))
+    );
+    await navigate("/list");
+    setScrollY(640);
+    await navigate("/detail");
+    expect(scrollTo).toHaveBeenLastCalledWith({ top: 0, left: 0, behavior: "auto" });
+
+    history.back();
+    await vi.waitFor(() => expect(document.querySelector("main")?.innerHTML).toBe("<p>/list</p>"));
+
+    expect(location.pathname).toBe("/list");
+    expect(scrollTo).toHaveBeenLastCalledWith(0, 640);
+  });
+
+  test("scrolls to the #hash target of the new page", async () => {
+    fetchMock.mockResolvedValue(page(`<h2 id="install">Install</h2>`));
+
+    await navigate("/docs#install");
+
+    expect(scrollIntoView).toHaveBeenCalledTimes(1);
+    expect(scrollIntoView.mock.contexts[0]).toBe(document.getElementById("install"));
+    expect(scrollTo).not.toHaveBeenCalled();
+  });
+
+  test("moves focus to the outlet or its [autofocus] element", async () => {
+    fetchMock.mockResolvedValueOnce(page(`<p>Docs</p>`));
+    await navigate("/docs");
+
+    const main = document.querySelector("main")!;
+    expect(main.getAttribute("tabindex")).toBe("-1");
+    expect(document.activeElement).toBe(main);
+
+    fetchMock.mockResolvedValueOnce(page(`<input id="q" autofocus>`));
+    await navigate("/search");
+
+    expect(document.activeElement).toBe(document.getElementById("q"));
+  });
+
+  test("announces the new title in an aria-live region", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(
+        `<template data-sol-outlet="main"><p>Guide</p></template>` +
+          `<template data-sol-title>Guide - Docs</template>`
+      )
+    );
+
+    await navigate("/guide");
+
+    const region = document.querySelector("[data-sol-announcer]");
+    expect(region?.getAttribute("aria-live")).toBe("polite");
+    expect(region?.textContent).toBe("Guide - Docs");
+  });
+});
+
+describe("sol-nav morph swaps", () => {
+  const fetchMock = vi.fn();
+  const unloaded: Element[] = [];
+  const w = window as unknown as {
+    __SOL_NAVIGATE__: (url: string) => Promise<void>;
+    __LUNA_UNLOAD_ALL__?: (target: Element) => void;
+  };
+  const respond = (html: string) => fetchMock.mockResolvedValue(new Response(html));
+
+  beforeAll(async () => {
+    vi.stubGlobal("fetch", fetchMock);
+    Element.prototype.scrollIntoView = vi.fn();
+    await import("./src/sol-nav.ts");
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    unloaded.length = 0;
+    w.__LUNA_UNLOAD_ALL__ = (target) => unloaded.push(target);
+    history.replaceState({}, "", "/");
+    (window as unknown as { __SOL_CACHE__: { clear(): void } }).__SOL_CACHE__.clear();
+  });
+
+  afterEach(() => {
+    delete w.__LUNA_UNLOAD_ALL__;
+  });
+
+  test("keeps focus and typed values of matched nodes", async () => {
+    document.body.innerHTML = `<main data-sol-outlet="main"><input id="q" value=""><p>Old</p></main>`;
+    const input = document.getElementById("q") as HTMLInputElement;
+    input.value = "typed";
+    input.focus();
+    respond(
+      `<template data-sol-outlet="main" data-sol-swap="morph"><input id="q" value="" class="search"><p>Results</p><p>More</p></template>`
+    );
+
+    await w.__SOL_NAVIGATE__("/search");
+
+    const main = document.querySelector("main")!;
+    expect(document.getElementById("q")).toBe(input);
+    expect(input.value).toBe("typed");
+    expect(input.className).toBe("search");
+    expect(document.activeElement).toBe(input);
+    expect(main.innerHTML).toBe(
+      `<input id="q" value="" class="search"><p>Results</p><p>More</p>`
+    );
+    expect(unloaded).toHaveLength(0);
+  });
+
+  test("keeps unchanged islands and replaces changed ones", async () => {
+    document.body.innerHTML =
+      `<main data-sol-outlet="main" data-sol-swap="morph">` +
+      `<div luna:id="cart" luna:url="/cart.js" luna:state='{"n":1}'>hydrated</div>` +
+      `<div luna:id="feed" luna:url="/feed.js" luna:state='{"page":1}'>hydrated</div>` +
+      `<div luna:id="old" luna:url="/old.js">hydrated</div>` +
+      `</main>`;
+    const [cart, feed, old] = Array.from(document.querySelectorAll("main > div"));
+    respond(
+      `<template data-sol-outlet="main">` +
+        `<div luna:id="feed" luna:url="/feed.js" luna:state='{"page":2}'>page 2</div>` +
+        `<div luna:id="cart" luna:url="/cart.js" luna:state='{"n":1}'>ssr</div>` +
+        `</template>`
+    );
+
+    await w.__SOL_NAVIGATE__("/feed?page=2");
+
+    const islands = Array.from(document.querySelectorAll("main > div"));
+    expect(islands).toHaveLength(2);
+    expect(islands[1]).toBe(cart);
+    expect(cart.textContent).toBe("hydrated");
+    expect(islands[0]).not.toBe(feed);
+    expect(islands[0].textContent).toBe("page 2");
+    expect(unloaded).toEqual([feed, old]);
+  });
+});
+
+describe("sol-nav view transitions", () => {
+  const fetchMock = vi.fn();
+  const types: Set<string>[] = [];
+  const directions: (string | undefined)[] = [];
+  const startViewTransition = vi.fn((update: () => void) => {
+    const transitionTypes = new Set<string>();
+    types.push(transitionTypes);
+    const updateCallbackDone = Promise.resolve().then(() => {
+      directions.push(document.documentElement.dataset.solDirection);
+      update();
+    });
+    return { updateCallbackDone, finished: updateCallbackDone, types: transitionTypes };
+  });
+  const navigate = (url: string) =>
+    (window as unknown as { __SOL_NAVIGATE__: (url: string) => Promise<void> }).__SOL_NAVIGATE__(url);
+
+  beforeAll(async () => {
+    vi.stubGlobal("fetch", fetchMock);
+    Element.prototype.scrollIntoView = vi.fn();
+    (document as unknown as { startViewTransition: unknown }).startViewTransition =
+      startViewTransition;
+    await import("./src/sol-nav.ts");
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    startViewTransition.mockClear();
+    types.length = 0;
+    directions.length = 0;
+    history.replaceState({}, "", "/");
+    (window as unknown as { __SOL_CACHE__: { clear(): void } }).__SOL_CACHE__.clear();
+    document.head.innerHTML = `<meta name="sol-view-transitions" content="on">`;
+    document.body.innerHTML = `<main data-sol-outlet="main"></main>`;
+    fetchMock.mockImplementation((url: string) =>
+      Promise.resolve(
+        new Response(
+          `<template data-sol-outlet="main"><p>${new URL(url, location.href).pathname}</p></template>`
+        )
+      )
+    );
+  });
+
+  test("wraps the swap in a named, directed view transition", async () => {
+    await navigate("/list");
+
+    expect(startViewTransition).toHaveBeenCalledTimes(1);
+    expect(document.querySelector("main")?.innerHTML).toBe("<p>/list</p>");
+    expect(document.querySelector("main")?.style.getPropertyValue("view-transition-name")).toBe(
+      "sol-outlet-main"
+    );
+    expect([...types[0]]).toEqual(["forward"]);
+    expect(directions).toEqual(["forward"]);
+  });
+
+  test("back/forward navigations are hinted as back", async () => {
+    await navigate("/list");
+    await navigate("/detail");
+
+    history.back();
+    await vi.waitFor(() => expect(document.querySelector("main")?.innerHTML).toBe("<p>/list</p>"));
+
+    expect([...types[2]]).toEqual(["back"]);
+    expect(directions[2]).toBe("back");
+  });
+
+  test("swaps without a transition unless opted in", async () => {
+    document.head.innerHTML = "";
+
+    await navigate("/list");
+
+    expect(startViewTransition).not.toHaveBeenCalled();
+    expect(document.querySelector("main")?.innerHTML).toBe("<p>/list</p>");
+  });
+});
@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, expectTypeOf, test, vi } from "vitest";
+import { setNavigationRouter, type NavigateHandler } from "./src/router/navigation.ts";
+import { SpaRouter, type PathParams, type RouteParams } from "./src/router/spa.ts";
+
+// Navigation router that updates history and notifies synchronously
+function installTestRouter() {
+  const handlers = new Set<NavigateHandler>();
+  const router = {
+    onNavigate(handler: NavigateHandler) {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    },
+    async navigate(path: string, options: { replace?: boolean } = {}) {
+      if (options.replace) {
+        history.replaceState(null, "", path);
+      } else {
+        history.pushState(null, "", path);
+      }
+      for (const handler of Array.from(handlers)) {
+        await handler({ path, params: {}, isPopState: false });
+      }
+    },
+  };
+  setNavigationRouter(router);
+  return router;
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("SpaRouter", () => {
+  let spa: SpaRouter;
+  let nav: ReturnType<typeof installTestRouter>;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="app"></div>';
+    history.replaceState(null, "", "/");
+    vi.spyOn(window, "scrollTo").mockImplementation(() => {});
+    nav = installTestRouter();
+    spa = new SpaRouter();
+  });
+
+  afterEach(() => {
+    spa.stop();
+    vi.restoreAllMocks();
+  });
+
+  test("infers params from path patterns", () => {
+    expectTypeOf<PathParams<"/users/:id">>().toEqualTypeOf<{ id: string }>();
+    expectTypeOf<PathParams<"/blog/[slug]/[...rest]">>().toEqualTypeOf<{
+      slug: string;
+      rest: string;
+    }>();
+    expectTypeOf<PathParams<"/docs/[[...path]]">>().toEqualTypeOf<{ path?: string }>();
+    expectTypeOf<PathParams<"/about">>().toEqualTypeOf<{}>();
+  });
+
+  test("infers child params from the full pattern", () => {
+    spa.route({
+      path: "/users/:id",
+      children: [
+        {
+          path: "posts/:postId",
+          render: ({ params }) => {
+            expectTypeOf(params).toEqualTypeOf<{ id: string; postId: string }>();
+            // @ts-expect-error children only get the params of their pattern
+            params.typo;
+          },
+        },
+        {
+          path: "settings",
+          render: ({ params }) => {
+            expectTypeOf(params).toEqualTypeOf<{ id: string }>();
+          },
+        },
+      ],
+    });
+  });
+
+  test("matches dynamic, catch-all and optional catch-all segments", async () => {
+    const seen: Record<string, string>[] = [];
+    const render = ({ params }: RouteParams) => {
+      seen.push(params);
+    };
+    spa.routes([
+      { path: "/users/:id", render },
+      { path: "/files/[...path]", render },
+      { path: "/docs/[[...path]]", render },
+    ]);
+    spa.start();
+
+    await nav.navigate("/users/42");
+    await nav.navigate("/files/a/b.txt");
+    await nav.navigate("/docs");
+    await nav.navigate("/docs/guide/intro");
+    await nav.navigate("/files");
+
+    expect(seen).toEqual([
+      { id: "42" },
+      { path: "a/b.txt" },
+      {},
+      { path: "guide/intro" },
+    ]);
+  });
+
+  test("keeps layouts mounted while navigating between children", async () => {
+    const layout = vi.fn(({ outlet }: RouteParams) => {
+      outlet!.innerHTML = '<nav></nav><main></main>';
+      return outlet!.querySelector("main");
+    });
+    spa.route({
+      path: "/users/:id",
+      layout,
+      children: [
+        {
+          path: "",
+          render: ({ params, outlet }) => {
+            outlet!.textContent = `profile ${params.id}`;
+          },
+        },
+        {
+          path: "settings",
+          render: ({ params, outlet }) => {
+            outlet!.textContent = `settings ${params.id}`;
+          },
+        },
+      ],
+    });
+    spa.start();
+
+    await nav.navigate("/users/1");
+    await nav.navigate("/users/1/settings");
+    expect(layout).toHaveBeenCalledTimes(1);
+    expect(document.querySelector("#app main")?.textContent).toBe("settings 1");
+
+    await nav.navigate("/users/2");
+    expect(layout).toHaveBeenCalledTimes(2);
+    expect(document.querySelector("#app main")?.textContent).toBe("profile 2");
+  });
+
+  test("beforeEnter guards cancel or redirect, outermost first", async () => {
+    let signedIn = false;
+    const calls: string[] = [];
+    const render = ({ path }: RouteParams) => {
+      calls.push(`render ${path}`);
+    };
+    spa.routes([
+      { path: "/", render },
+      { path: "/login", render },
+      {
+        path: "/admin",
+        beforeEnter: () => {
+          calls.push("guard admin");
+          return signedIn || "/login";
+        },
+        children: [
+          {
+            path: "locked",
+            beforeEnter: () => {
+              calls.push("guard locked");
+              return false;
+            },
+            render,
+          },
+          { path: "", render },
+        ],
+      },
+    ]);
+    spa.start();
+    await flush();
+
+    await nav.navigate("/admin");
+    expect(window.location.pathname).toBe("/login");
+
+    signedIn = true;
+    await nav.navigate("/admin/locked");
+    expect(window.location.pathname).toBe("/login");
+
+    expect(calls).toEqual([
+      "render /",
+      "guard admin",
+      "render /login",
+      "guard admin",
+      "guard locked",
+    ]);
+  });
+
+  test("redirects routes and gives up on redirect loops", async () => {
+    const errors: string[] = [];
+    const onError = (e: Event) => errors.push((e as CustomEvent).detail.path);
+    window.addEventListener("luna:navigation-error", onError);
+    const render = vi.fn();
+    spa.routes([
+      { path: "/old/:id", redirect: ({ params }) => `/new/${params.id}` },
+      { path: "/new/:id", render },
+      { path: "/loop", beforeEnter: () => "/loop" },
+    ]);
+    spa.start();
+    await flush();
+
+    await nav.navigate("/old/7");
+    expect(window.location.pathname).toBe("/new/7");
+    expect(render).toHaveBeenCalledWith(
+      expect.objectContaining({ params: { id: "7" } })
+    );
+
+    await nav.navigate("/loop");
+    expect(errors).toEqual(["/loop"]);
+    window.removeEventListener("luna:navigation-error", onError);
+  });
+});
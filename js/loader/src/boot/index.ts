@@ -1,6 +1,13 @@
 /*! luna boot v1 - Minimal client runtime */
 
-export { ChunkLoader, getLoader, initLoader, type ChunkManifest } from './loader';
+export {
+  ChunkLoader,
+  getLoader,
+  initLoader,
+  type ChunkManifest,
+  type ChunkLoaderOptions,
+  type ChunkErrorDetail,
+} from './loader';
 export { MinimalRouter, getRouter, startRouter, type RouterOptions, type NavigateHandler } from './router';
 
 import { initLoader } from './loader';
@@ -13,6 +20,8 @@ import { onReady } from '../lib';
 export interface BootOptions {
   /** Manifest URL or inline manifest (default: "/_luna/manifest.json") */
   manifest?: string | import('./loader').ChunkManifest;
+  /** Chunk loader options (retries, version skew handling) */
+  loader?: import('./loader').ChunkLoaderOptions;
   /** Router options */
   router?: import('./router').RouterOptions;
   /** Skip manifest loading (for static-only sites) */
@@ -28,7 +37,7 @@ export interface BootOptions {
 export async function boot(options: BootOptions = {}): Promise<void> {
   // Initialize chunk loader with manifest
   if (!options.skipManifest) {
-    await initLoader(options.manifest);
+    await initLoader(options.manifest, options.loader);
   }
 
   // Start router for link interception
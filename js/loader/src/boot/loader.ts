@@ -1,4 +1,4 @@
-/*! luna boot/loader v2 - Hierarchical chunk loading */
+/*! luna boot/loader v3 - Hierarchical chunk loading */
 
 /**
  * V1 Manifest structure (backward compatible)
@@ -7,17 +7,30 @@ export interface ChunkManifest {
   routes: Record<string, string[]>;
   chunks: Record<string, string>;
   base?: string;
+  /** Build identifier, compared to detect a deploy (optional) */
+  build?: string;
+  /** SRI hashes by chunk name, e.g. "sha384-..." (optional) */
+  integrity?: Record<string, string>;
 }
 
 /**
  * V2 Hierarchical manifest structure
+ * V3 adds route stylesheets and the chunk import graph
  */
 export interface HierarchicalManifest {
-  version: 2;
+  version: 2 | 3;
   base: string;
   segments: Record<string, SegmentRef>;
   chunks: Record<string, string>;
   routes: Record<string, string[]>;
+  /** Stylesheets by route, for inline routes (v3) */
+  css?: Record<string, string[]>;
+  /** Chunks statically imported by each chunk (v3) */
+  imports?: Record<string, string[]>;
+  /** Build identifier, compared to detect a deploy (optional) */
+  build?: string;
+  /** SRI hashes by chunk name, e.g. "sha384-..." (optional) */
+  integrity?: Record<string, string>;
 }
 
 export interface SegmentRef {
@@ -32,6 +45,8 @@ export interface SegmentManifest {
   routes: Record<string, string[]>;
   dynamic: DynamicPattern[];
   fallback: 'spa' | '404';
+  /** Stylesheets by route or dynamic pattern (v3) */
+  css?: Record<string, string[]>;
 }
 
 export interface DynamicPattern {
@@ -43,23 +58,76 @@ export interface DynamicPattern {
 
 export interface RouteMatch {
   chunks: string[];
+  /** Stylesheets the route needs (v3 manifests) */
+  css?: string[];
   params: Record<string, string>;
   segment?: string;
   isSpa?: boolean;
 }
 
+export interface ChunkLoaderOptions {
+  /** Retries after a failed chunk import (default: 2) */
+  retries?: number;
+  /** Delay before the first retry in ms, doubled for each next one (default: 300) */
+  retryDelay?: number;
+  /**
+   * What to do when a chunk fails because a newer manifest was deployed:
+   * - refetch: switch to the new manifest and load the chunk from it
+   * - reload: reload the page (unless `luna:chunkerror` is canceled)
+   * Only manifests loaded from a URL can be checked (default: "refetch")
+   */
+  onVersionSkew?: 'refetch' | 'reload';
+}
+
+/**
+ * Detail of the `luna:chunkerror` window event, dispatched when a chunk
+ * could not be loaded after all retries
+ */
+export interface ChunkErrorDetail {
+  chunk: string;
+  url: string;
+  error: unknown;
+  /** The manifest changed since the page loaded (a deploy happened) */
+  versionSkew: boolean;
+}
+
 type Manifest = ChunkManifest | HierarchicalManifest;
 type V1CompatModule = typeof import("./loader-v1");
 
-function isV2Manifest(m: Manifest): m is HierarchicalManifest {
-  return (m as HierarchicalManifest).version === 2;
+function isHierarchicalManifest(m: Manifest): m is HierarchicalManifest {
+  const { version } = m as HierarchicalManifest;
+  return version === 2 || version === 3;
+}
+
+function isSameBuild(a: Manifest, b: Manifest): boolean {
+  if (a.build !== undefined && b.build !== undefined) return a.build === b.build;
+  return JSON.stringify(a.chunks) === JSON.stringify(b.chunks);
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// Browsers keep failed module fetches in the module map, so a retry of
+// the same URL needs a distinct one
+const withRetryParam = (url: string, attempt: number): string =>
+  `${url}${url.includes('?') ? '&' : '?'}retry=${attempt}`;
+
+function supportsModulePreload(): boolean {
+  try {
+    return document.createElement('link').relList.supports('modulepreload');
+  } catch {
+    return false;
+  }
 }
 
 /**
  * ChunkLoader manages dynamic chunk loading based on manifest
- * Supports both v1 (flat) and v2 (hierarchical) manifests
+ * Supports v1 (flat) and v2/v3 (hierarchical) manifests
+ * - Retries failed imports with backoff
+ * - Verifies chunks with SRI hashes from the manifest
+ * - Recovers from chunks removed by a newer deploy
  */
 export class ChunkLoader {
+  private options: Required<ChunkLoaderOptions>;
   private loaded = new Set<string>();
   private loading = new Map<string, Promise<unknown>>();
   private manifest: Manifest | null = null;
@@ -67,6 +135,18 @@ export class ChunkLoader {
   private base = '/_luna/';
   private segments = new Map<string, SegmentManifest>();
   private segmentLoading = new Map<string, Promise<SegmentManifest>>();
+  private manifestUrl: string | null = null;
+  private manifestRefresh: Promise<boolean> | null = null;
+  private preloaded = new Set<string>();
+  private styles = new Map<string, Promise<void>>();
+
+  constructor(options: ChunkLoaderOptions = {}) {
+    this.options = {
+      retries: options.retries ?? 2,
+      retryDelay: options.retryDelay ?? 300,
+      onVersionSkew: options.onVersionSkew ?? 'refetch',
+    };
+  }
 
   /**
    * Initialize loader with manifest
@@ -74,14 +154,26 @@ export class ChunkLoader {
   async init(manifestOrUrl: Manifest | string = '/_luna/manifest.json'): Promise<void> {
     if (typeof manifestOrUrl === 'string') {
       const res = await fetch(manifestOrUrl);
-      this.manifest = await res.json();
+      this.manifestUrl = manifestOrUrl;
+      await this.setManifest(await res.json());
     } else {
-      this.manifest = manifestOrUrl;
+      this.manifestUrl = null;
+      await this.setManifest(manifestOrUrl);
     }
-    if (this.manifest?.base) {
-      this.base = this.manifest.base;
+  }
+
+  /**
+   * Switch to a manifest; resolves once v1 manifests can be matched
+   */
+  private async setManifest(manifest: Manifest): Promise<void> {
+    this.manifest = manifest;
+    if (manifest?.base) {
+      this.base = manifest.base;
     }
-    if (this.manifest && !isV2Manifest(this.manifest)) {
+    // Segment manifests belong to the build that listed them
+    this.segments.clear();
+    this.segmentLoading.clear();
+    if (manifest && !isHierarchicalManifest(manifest)) {
       await this.ensureV1Compat();
     }
   }
@@ -93,7 +185,7 @@ export class ChunkLoader {
   async matchPath(path: string): Promise<RouteMatch | null> {
     if (!this.manifest) return null;
 
-    if (isV2Manifest(this.manifest)) {
+    if (isHierarchicalManifest(this.manifest)) {
       return this.matchPathV2(path, this.manifest);
     } else {
       const compat = await this.ensureV1Compat();
@@ -102,23 +194,17 @@ export class ChunkLoader {
   }
 
   /**
-   * V2 path matching (hierarchical manifest)
+   * Hierarchical path matching (v2 and v3 manifests)
    */
   private async matchPathV2(path: string, manifest: HierarchicalManifest): Promise<RouteMatch | null> {
-    // Try inline routes first
-    if (manifest.routes[path]) {
-      return { chunks: manifest.routes[path], params: {} };
-    }
-
-    // Try with/without trailing slash
+    // Try inline routes first, then with/without trailing slash
     const normalized = path.endsWith('/') ? path : path + '/';
     const withoutSlash = path.replace(/\/$/, '') || '/';
 
-    if (manifest.routes[normalized]) {
-      return { chunks: manifest.routes[normalized], params: {} };
-    }
-    if (manifest.routes[withoutSlash]) {
-      return { chunks: manifest.routes[withoutSlash], params: {} };
+    for (const route of [path, normalized, withoutSlash]) {
+      if (manifest.routes[route]) {
+        return { chunks: manifest.routes[route], css: manifest.css?.[route], params: {} };
+      }
     }
 
     // Find matching segment
@@ -139,6 +225,7 @@ export class ChunkLoader {
     if (segmentManifest.routes[relativePath]) {
       return {
         chunks: segmentManifest.routes[relativePath],
+        css: segmentManifest.css?.[relativePath],
         params: {},
         segment: segmentName,
         isSpa: segmentRef.spa,
@@ -152,6 +239,7 @@ export class ChunkLoader {
         const chunks = segmentManifest.routes[pattern.pattern] ?? ['boot'];
         return {
           chunks,
+          css: segmentManifest.css?.[pattern.pattern],
           params: match,
           segment: segmentName,
           isSpa: segmentRef.spa,
@@ -253,7 +341,7 @@ export class ChunkLoader {
   getChunksForPath(path: string): string[] {
     if (!this.manifest) return [];
 
-    if (isV2Manifest(this.manifest)) {
+    if (isHierarchicalManifest(this.manifest)) {
       // For sync access, only check inline routes
       if (this.manifest.routes[path]) {
         return this.manifest.routes[path];
@@ -274,12 +362,91 @@ export class ChunkLoader {
   async loadForPath(path: string): Promise<string[]> {
     const match = await this.matchPath(path);
     if (!match) return [];
+    return this.loadMatch(match);
+  }
 
+  /**
+   * Load the chunks and stylesheets of a matched route
+   * Their imports are preloaded up front, so nested imports don't load
+   * one after another; resolves once the stylesheets are applied too.
+   */
+  async loadMatch(match: RouteMatch): Promise<string[]> {
     const missing = match.chunks.filter(c => !this.loaded.has(c));
-    await Promise.all(missing.map(c => this.loadChunk(c)));
+    this.preloadChunks(missing);
+    await Promise.all([
+      this.loadStyles(match.css ?? []),
+      ...missing.map(c => this.loadChunk(c)),
+    ]);
     return missing;
   }
 
+  /**
+   * Add `<link rel=modulepreload>` for chunks and everything they import
+   */
+  preloadChunks(chunks: string[]): void {
+    for (const chunk of this.collectImports(chunks)) {
+      if (this.loaded.has(chunk) || this.loading.has(chunk)) continue;
+      const url = this.resolveChunkUrl(chunk);
+      if (this.preloaded.has(url)) continue;
+      this.preloaded.add(url);
+
+      const link = document.createElement('link');
+      link.rel = 'modulepreload';
+      link.href = url;
+      const integrity = this.getIntegrity(chunk);
+      if (integrity) link.integrity = integrity;
+      document.head.appendChild(link);
+    }
+  }
+
+  /**
+   * Apply stylesheets, resolving once they loaded (or failed, which does
+   * not block rendering)
+   */
+  loadStyles(hrefs: string[]): Promise<void> {
+    return Promise.all(hrefs.map(href => {
+      const url = this.resolveAssetUrl(href);
+      let pending = this.styles.get(url);
+      if (!pending) {
+        pending = this.findStylesheet(url)
+          ? Promise.resolve()
+          : new Promise<void>(resolve => {
+              const link = document.createElement('link');
+              link.rel = 'stylesheet';
+              link.href = url;
+              link.onload = () => resolve();
+              link.onerror = () => resolve();
+              document.head.appendChild(link);
+            });
+        this.styles.set(url, pending);
+      }
+      return pending;
+    })).then(() => undefined);
+  }
+
+  /**
+   * Chunks and their transitive imports from the manifest graph
+   */
+  private collectImports(chunks: string[]): string[] {
+    const imports = this.manifest && isHierarchicalManifest(this.manifest)
+      ? this.manifest.imports ?? {}
+      : {};
+    const seen = new Set<string>();
+    const visit = (chunk: string): void => {
+      if (seen.has(chunk)) return;
+      seen.add(chunk);
+      imports[chunk]?.forEach(visit);
+    };
+    chunks.forEach(visit);
+    return Array.from(seen);
+  }
+
+  private findStylesheet(url: string): HTMLLinkElement | null {
+    const absolute = new URL(url, window.location.href).href;
+    const links = document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"]');
+    return Array.from(links).find(link => link.href === absolute) ?? null;
+  }
+
   /**
    * Load a specific chunk by name
    */
@@ -289,8 +456,7 @@ export class ChunkLoader {
     const pending = this.loading.get(name);
     if (pending) return pending;
 
-    const url = this.resolveChunkUrl(name);
-    const promise = import(/* @vite-ignore */ url)
+    const promise = this.loadWithRecovery(name)
       .then(mod => {
         this.loaded.add(name);
         this.loading.delete(name);
@@ -305,6 +471,100 @@ export class ChunkLoader {
     return promise;
   }
 
+  /**
+   * Import a chunk, retrying with backoff; a failure caused by a newer
+   * deploy is handled per `onVersionSkew`
+   */
+  private async loadWithRecovery(name: string): Promise<unknown> {
+    const attempted = new Set<string>();
+    let versionSkew = false;
+    let error: unknown;
+
+    for (let attempt = 0; attempt <= this.options.retries; attempt++) {
+      if (attempt > 0) await sleep(this.options.retryDelay * 2 ** (attempt - 1));
+
+      const url = this.resolveChunkUrl(name);
+      try {
+        return await this.importChunk(
+          attempted.has(url) ? withRetryParam(url, attempt) : url,
+          this.getIntegrity(name)
+        );
+      } catch (err) {
+        error = err;
+        attempted.add(url);
+      }
+
+      // A chunk removed by a deploy never comes back, so check the manifest
+      // before spending retries on it
+      if (attempt === 0 && await this.refreshManifest()) {
+        versionSkew = true;
+        if (this.options.onVersionSkew === 'reload') break;
+      }
+    }
+
+    const proceed = window.dispatchEvent(new CustomEvent<ChunkErrorDetail>('luna:chunkerror', {
+      detail: { chunk: name, url: this.resolveChunkUrl(name), error, versionSkew },
+      cancelable: true,
+    }));
+    if (versionSkew && this.options.onVersionSkew === 'reload' && proceed) {
+      window.location.reload();
+    }
+    throw error;
+  }
+
+  /**
+   * Import a chunk URL, verified against its SRI hash when there is one
+   */
+  private async importChunk(url: string, integrity?: string): Promise<unknown> {
+    // import() takes no integrity; a verified modulepreload fills the module
+    // map first, so the import below reuses it instead of fetching again.
+    // Without modulepreload support the chunk loads unverified.
+    if (!integrity || !supportsModulePreload()) {
+      return import(/* @vite-ignore */ url);
+    }
+
+    const link = document.createElement('link');
+    try {
+      await new Promise<void>((resolve, reject) => {
+        link.rel = 'modulepreload';
+        link.href = url;
+        link.integrity = integrity;
+        link.onload = () => resolve();
+        link.onerror = () => reject(new Error(`Failed to load chunk: ${url}`));
+        document.head.appendChild(link);
+      });
+      return await import(/* @vite-ignore */ url);
+    } finally {
+      // The module map keeps the module; the link is only needed until then
+      link.remove();
+    }
+  }
+
+  /**
+   * Fetch the manifest again; resolves true (and switches to it) when a
+   * different build was deployed. Concurrent failures share one request.
+   */
+  private refreshManifest(): Promise<boolean> {
+    const url = this.manifestUrl;
+    if (!url) return Promise.resolve(false);
+
+    this.manifestRefresh ??= fetch(url, { cache: 'no-store' })
+      .then(res => (res.ok ? res.json() : null))
+      .then((next: Manifest | null) => {
+        if (!next || !this.manifest || isSameBuild(this.manifest, next)) return false;
+        return this.setManifest(next).then(() => true);
+      })
+      .catch(() => false)
+      .finally(() => {
+        this.manifestRefresh = null;
+      });
+    return this.manifestRefresh;
+  }
+
+  private getIntegrity(name: string): string | undefined {
+    return this.manifest?.integrity?.[name];
+  }
+
   /**
    * Resolve chunk name to URL
    */
@@ -313,29 +573,42 @@ export class ChunkLoader {
       return `${this.base}${name}.js`;
     }
 
-    const chunks = isV2Manifest(this.manifest)
-      ? this.manifest.chunks
-      : this.manifest.chunks;
-
-    const hashedPath = chunks[name];
-    if (hashedPath) {
-      return hashedPath.startsWith('/') ? hashedPath : `${this.base}${hashedPath}`;
-    }
+    const hashedPath = this.manifest.chunks[name];
+    return this.resolveAssetUrl(hashedPath ?? `${name}.js`);
+  }
 
-    return `${this.base}${name}.js`;
+  /**
+   * Resolve a manifest path against the manifest base
+   */
+  private resolveAssetUrl(path: string): string {
+    return path.startsWith('/') || /^[a-z][a-z\d+.-]*:/i.test(path) ? path : `${this.base}${path}`;
   }
 
   /**
-   * Prefetch chunks for a path
+   * Prefetch chunks (with their imports) and stylesheets for a path
    */
   prefetch(path: string): void {
-    const chunks = this.getChunksForPath(path);
-    const missing = chunks.filter(c => !this.loaded.has(c) && !this.loading.has(c));
+    this.matchPath(path)
+      .then(match => {
+        if (!match) return;
+        this.preloadChunks(match.chunks);
+        this.preloadStyles(match.css ?? []);
+      })
+      .catch(() => { /* prefetch failures are not fatal */ });
+  }
+
+  /**
+   * Fetch stylesheets ahead of time without applying them
+   */
+  private preloadStyles(hrefs: string[]): void {
+    for (const href of hrefs) {
+      const url = this.resolveAssetUrl(href);
+      if (this.styles.has(url) || this.preloaded.has(url) || this.findStylesheet(url)) continue;
+      this.preloaded.add(url);
 
-    for (const chunk of missing) {
-      const url = this.resolveChunkUrl(chunk);
       const link = document.createElement('link');
-      link.rel = 'modulepreload';
+      link.rel = 'preload';
+      link.as = 'style';
       link.href = url;
       document.head.appendChild(link);
     }
@@ -345,7 +618,7 @@ export class ChunkLoader {
    * Prefetch a segment manifest
    */
   prefetchSegment(segment: string): void {
-    if (!this.manifest || !isV2Manifest(this.manifest)) return;
+    if (!this.manifest || !isHierarchicalManifest(this.manifest)) return;
 
     const segmentRef = this.manifest.segments[segment];
     if (segmentRef && !this.segments.has(segment) && !this.segmentLoading.has(segment)) {
@@ -357,14 +630,14 @@ export class ChunkLoader {
    * Check if manifest is v2 (hierarchical)
    */
   isHierarchical(): boolean {
-    return this.manifest !== null && isV2Manifest(this.manifest);
+    return this.manifest !== null && isHierarchicalManifest(this.manifest);
   }
 
   /**
    * Get segment info for a path
    */
   getSegmentInfo(path: string): SegmentRef | null {
-    if (!this.manifest || !isV2Manifest(this.manifest)) return null;
+    if (!this.manifest || !isHierarchicalManifest(this.manifest)) return null;
 
     const segmentName = this.extractFirstSegment(path);
     return this.manifest.segments[segmentName] ?? null;
@@ -383,21 +656,26 @@ export class ChunkLoader {
     this.loading.clear();
     this.segments.clear();
     this.segmentLoading.clear();
+    this.preloaded.clear();
+    this.styles.clear();
   }
 }
 
 // Global singleton
 let globalLoader: ChunkLoader | null = null;
 
-export function getLoader(): ChunkLoader {
+export function getLoader(options?: ChunkLoaderOptions): ChunkLoader {
   if (!globalLoader) {
-    globalLoader = new ChunkLoader();
+    globalLoader = new ChunkLoader(options);
   }
   return globalLoader;
 }
 
-export async function initLoader(manifestOrUrl?: Manifest | string): Promise<ChunkLoader> {
-  const loader = getLoader();
+export async function initLoader(
+  manifestOrUrl?: Manifest | string,
+  options?: ChunkLoaderOptions
+): Promise<ChunkLoader> {
+  const loader = getLoader(options);
   await loader.init(manifestOrUrl);
   return loader;
 }
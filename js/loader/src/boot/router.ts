@@ -2,6 +2,7 @@
 
 import { getLoader, RouteMatch } from './loader';
 import { setNavigationRouter } from '../router/navigation';
+import { getPrefetchPolicy, type PrefetchHint } from '../router/prefetch';
 import type {
   NavigateEvent,
   NavigateHandler,
@@ -15,10 +16,15 @@ export interface RouterOptions {
   linkSelector?: string;
   /** Attribute to check for internal links (default: none) */
   linkAttribute?: string;
-  /** Enable prefetch on hover (default: true) */
+  /**
+   * Prefetch chunks of links on hover/touch/focus (default: true).
+   * Links can pick another strategy with `data-sol-prefetch`.
+   */
   prefetchOnHover?: boolean;
   /** Prefetch delay in ms (default: 50) */
   prefetchDelay?: number;
+  /** Browser hint for prefetched pages (default: "none") */
+  prefetchHint?: PrefetchHint;
   /** Enable SPA mode for specific segments */
   spaSegments?: string[];
 }
@@ -30,6 +36,7 @@ export interface RouterOptions {
 export class MinimalRouter implements NavigationRouter {
   private options: Required<RouterOptions>;
   private handlers: Set<NavigateHandler> = new Set();
+  private unregisterPrefetch: (() => void) | null = null;
 
   constructor(options: RouterOptions = {}) {
     this.options = {
@@ -37,6 +44,7 @@ export class MinimalRouter implements NavigationRouter {
       linkAttribute: options.linkAttribute ?? '',
       prefetchOnHover: options.prefetchOnHover ?? true,
       prefetchDelay: options.prefetchDelay ?? 50,
+      prefetchHint: options.prefetchHint ?? 'none',
       spaSegments: options.spaSegments ?? [],
     };
   }
@@ -46,9 +54,18 @@ export class MinimalRouter implements NavigationRouter {
    */
   start(): void {
     document.addEventListener('click', this.handleClick);
-    if (this.options.prefetchOnHover) {
-      document.addEventListener('mouseenter', this.handleHover, { capture: true });
-    }
+    // Shared with sol-nav, so a link's chunks and data are prefetched together
+    this.unregisterPrefetch = getPrefetchPolicy({
+      intentDelay: this.options.prefetchDelay,
+    }).register({
+      selector: this.options.linkSelector,
+      filter: link =>
+        !this.options.linkAttribute || link.hasAttribute(this.options.linkAttribute),
+      defaultStrategy: this.options.prefetchOnHover ? 'intent' : 'none',
+      hint: this.options.prefetchHint,
+      // Routes are matched on the pathname alone
+      prefetch: url => this.prefetch(url.split('?')[0]),
+    });
     window.addEventListener('popstate', this.handlePopState);
   }
 
@@ -57,7 +74,8 @@ export class MinimalRouter implements NavigationRouter {
    */
   stop(): void {
     document.removeEventListener('click', this.handleClick);
-    document.removeEventListener('mouseenter', this.handleHover, { capture: true });
+    this.unregisterPrefetch?.();
+    this.unregisterPrefetch = null;
     window.removeEventListener('popstate', this.handlePopState);
   }
 
@@ -83,9 +101,8 @@ export class MinimalRouter implements NavigationRouter {
       return;
     }
 
-    // Load required chunks
-    const missing = match.chunks.filter(c => !loader.isLoaded(c));
-    await Promise.all(missing.map(c => loader.loadChunk(c)));
+    // Load required chunks and stylesheets before rendering
+    await loader.loadMatch(match);
 
     // Update history
     if (options.replace) {
@@ -166,27 +183,6 @@ export class MinimalRouter implements NavigationRouter {
     this.navigate(href, { replace });
   };
 
-  private handleHover = (e: MouseEvent): void => {
-    const target = e.target as Element | null;
-    if (!target?.closest) return;
-
-    const link = target.closest<HTMLAnchorElement>(this.options.linkSelector);
-    if (!link) return;
-
-    // Check link attribute if specified
-    if (this.options.linkAttribute && !link.hasAttribute(this.options.linkAttribute)) {
-      return;
-    }
-
-    const href = link.getAttribute('href');
-    if (!href || !this.isInternalLink(href)) return;
-
-    // Delay prefetch to avoid unnecessary loads
-    window.setTimeout(() => {
-      this.prefetch(href);
-    }, this.options.prefetchDelay);
-  };
-
   private handlePopState = async (e: PopStateEvent): Promise<void> => {
     const path = window.location.pathname;
     const loader = getLoader();
@@ -2,38 +2,119 @@
  * Shared utilities for Luna loaders
  */
 
+// Called once a trigger fires; `after` runs when hydration settled
+type Fire = (after?: () => void) => void;
+
+// Events that count as the first interaction with an island
+const INTERACTIONS = ['pointerdown', 'focusin', 'keydown'];
+
+const idle = (fn: () => void): (() => void) => {
+  if (typeof requestIdleCallback === 'function') {
+    const id = requestIdleCallback(fn);
+    return () => cancelIdleCallback(id);
+  }
+  // Safari has no requestIdleCallback
+  const id = setTimeout(fn, 200);
+  return () => clearTimeout(id);
+};
+
+// Hydrated handlers missed the events that led to hydration; dispatch copies
+const replay = (el: Element, e: Event): void => {
+  const target = e.target instanceof Node && e.target.isConnected && el.contains(e.target) ? e.target : el;
+  target.dispatchEvent(new (e.constructor as typeof Event)(e.type, e));
+};
+
+/**
+ * Watch one trigger; returns a cleanup for listeners it leaves behind
+ */
+const watch = (el: Element, trigger: string, fire: Fire): (() => void) | void => {
+  const i = trigger.indexOf(':');
+  const kind = i < 0 ? trigger : trigger.slice(0, i);
+  const arg = trigger.slice(i + 1);
+
+  if (kind === 'load') {
+    onReady(() => fire());
+  } else if (kind === 'idle') {
+    return idle(() => fire());
+  } else if (kind === 'visible') {
+    const obs = new IntersectionObserver(entries => {
+      if (entries.some(e => e.isIntersecting)) fire();
+    }, { rootMargin: '50px' });
+    obs.observe(el);
+    return () => obs.disconnect();
+  } else if (kind === 'media') {
+    const mq = matchMedia(arg);
+    const handler = () => mq.matches && fire();
+    mq.addEventListener('change', handler);
+    handler();
+    return () => mq.removeEventListener('change', handler);
+  } else if (kind === 'interaction') {
+    const handler = (e: Event) => {
+      // Clicks landing while the island hydrates are replayed too; their
+      // default action (following a link, submitting) waits for the replay
+      const queue = [e];
+      const record = (c: Event) => {
+        c.preventDefault();
+        queue.push(c);
+      };
+      el.addEventListener('click', record, true);
+      fire(() => {
+        el.removeEventListener('click', record, true);
+        queue.forEach(q => replay(el, q));
+      });
+    };
+    INTERACTIONS.forEach(t => el.addEventListener(t, handler, true));
+    return () => INTERACTIONS.forEach(t => el.removeEventListener(t, handler, true));
+  } else if (kind === 'event') {
+    // Dispatched on the island, or anywhere it bubbles to the window
+    const handler = () => fire();
+    el.addEventListener(arg, handler);
+    addEventListener(arg, handler);
+    return () => {
+      el.removeEventListener(arg, handler);
+      removeEventListener(arg, handler);
+    };
+  } else if (kind === 'timeout') {
+    const id = setTimeout(() => fire(), Number(arg) || 0);
+    return () => clearTimeout(id);
+  } else if (kind === 'hash') {
+    const id = arg.replace(/^#/, '');
+    const handler = () => location.hash.slice(1) === id && fire();
+    addEventListener('hashchange', handler);
+    handler();
+    return () => removeEventListener('hashchange', handler);
+  }
+  // "none" and unknown triggers hydrate manually only
+};
+
 /**
  * Setup hydration trigger for an element
+ *
+ * Triggers: `load`, `idle`, `visible`, `media:<query>`, `interaction`
+ * (first pointerdown/focusin/keydown, replayed after hydration),
+ * `event:<name>`, `timeout:<ms>`, `hash:<id>` and `none`. Composite
+ * triggers (`visible|interaction`) hydrate on whichever fires first.
  */
 export function setupTrigger(
   el: Element,
   trigger: string,
   hydrate: () => void | Promise<void>
 ): void {
-  if (trigger === 'load') {
-    document.readyState === 'loading'
-      ? document.addEventListener('DOMContentLoaded', () => hydrate(), { once: true })
-      : hydrate();
-  } else if (trigger === 'idle') {
-    requestIdleCallback(() => hydrate());
-  } else if (trigger[0] === 'v') {
-    // visible
-    new IntersectionObserver((entries, obs) => {
-      if (entries.some(e => e.isIntersecting)) {
-        obs.disconnect();
-        hydrate();
-      }
-    }, { rootMargin: '50px' }).observe(el);
-  } else if (trigger[0] === 'm') {
-    // media:query
-    const mq = matchMedia(trigger.slice(6));
-    const handler = () => {
-      if (mq.matches) {
-        mq.removeEventListener('change', handler);
-        hydrate();
-      }
-    };
-    mq.matches ? hydrate() : mq.addEventListener('change', handler);
+  let done = false;
+  const cleanups: (() => void)[] = [];
+  const fire: Fire = after => {
+    if (done) return;
+    done = true;
+    cleanups.forEach(c => c());
+    const result = hydrate();
+    // Replay whether or not hydration succeeded, without a dangling rejection
+    if (after) void Promise.resolve(result).then(after, after);
+  };
+
+  for (const t of trigger.split('|')) {
+    const cleanup = watch(el, t.trim(), fire);
+    // Triggers may fire while being set up
+    if (cleanup) done ? cleanup() : cleanups.push(cleanup);
   }
 }
 
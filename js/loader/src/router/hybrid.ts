@@ -1,16 +1,20 @@
 /*! luna router-hybrid v1 - Fetch + Swap Navigation */
 
 import { getNavigationRouter, NavigateEvent } from './navigation';
+import { withViewTransition, type NavigationDirection } from './transition';
+import { getPageCache, responseTTL } from './page-cache';
 
 export interface HybridRouterOptions {
   /** Selector for the main content container (default: "#app") */
   containerSelector?: string;
   /** Header to request fragment responses (default: "X-Luna-Fragment") */
   fragmentHeader?: string;
-  /** Cache TTL in ms (default: 5 minutes) */
+  /** Cache TTL in ms when the response sets none (default: 5 minutes) */
   cacheTTL?: number;
   /** Enable scroll restoration (default: true) */
   scrollRestoration?: boolean;
+  /** Wrap DOM swaps in view transitions when supported (default: false) */
+  viewTransitions?: boolean;
 }
 
 interface ScrollPosition {
@@ -18,6 +22,9 @@ interface ScrollPosition {
   y: number;
 }
 
+/** Key under which the router stores each entry's position in `history.state` */
+const HISTORY_INDEX_KEY = 'lunaHybridIndex';
+
 /**
  * HybridRouter implements Turbo/HTMX-style navigation
  * - Fetches HTML from server
@@ -27,9 +34,13 @@ interface ScrollPosition {
  */
 export class HybridRouter {
   private options: Required<HybridRouterOptions>;
-  private cache = new Map<string, string>();
+  // Shared page cache (also used by sol-nav)
+  private cache = getPageCache();
   private scrollPositions = new Map<string, ScrollPosition>();
   private isNavigating = false;
+  // Position of the current history entry, compared on popstate for the
+  // transition direction
+  private historyIndex = 0;
   private unsubscribe: (() => void) | null = null;
 
   constructor(options: HybridRouterOptions = {}) {
@@ -38,6 +49,7 @@ export class HybridRouter {
       fragmentHeader: options.fragmentHeader ?? 'X-Luna-Fragment',
       cacheTTL: options.cacheTTL ?? 5 * 60 * 1000,
       scrollRestoration: options.scrollRestoration ?? true,
+      viewTransitions: options.viewTransitions ?? false,
     };
   }
 
@@ -50,6 +62,9 @@ export class HybridRouter {
       history.scrollRestoration = 'manual';
     }
 
+    this.historyIndex = this.readHistoryIndex();
+    this.writeHistoryIndex();
+
     const router = getNavigationRouter();
     this.unsubscribe = router.onNavigate(this.handleNavigate);
   }
@@ -76,8 +91,35 @@ export class HybridRouter {
     this.cache.clear();
   }
 
+  private readHistoryIndex(): number {
+    const state = history.state as Record<string, unknown> | null;
+    const index = state?.[HISTORY_INDEX_KEY];
+    return typeof index === 'number' ? index : 0;
+  }
+
+  private writeHistoryIndex(): void {
+    history.replaceState({ ...history.state, [HISTORY_INDEX_KEY]: this.historyIndex }, '');
+  }
+
+  /**
+   * Track the entry's position; the navigation router has already pushed or
+   * popped the entry when handlers run
+   */
+  private updateHistoryIndex(isPopState: boolean): NavigationDirection {
+    if (!isPopState) {
+      this.historyIndex++;
+      this.writeHistoryIndex();
+      return 'forward';
+    }
+    const index = this.readHistoryIndex();
+    const direction = index < this.historyIndex ? 'back' : 'forward';
+    this.historyIndex = index;
+    return direction;
+  }
+
   private handleNavigate = async (event: NavigateEvent): Promise<void> => {
     const { path, isPopState } = event;
+    const direction = this.updateHistoryIndex(isPopState);
     if (this.isNavigating) return;
     this.isNavigating = true;
 
@@ -94,7 +136,7 @@ export class HybridRouter {
       // Try cache first (SWR pattern)
       const cachedHtml = this.cache.get(path);
       if (cachedHtml) {
-        this.updateDOM(cachedHtml);
+        await this.swap(cachedHtml, direction);
       }
 
       // Fetch fresh content
@@ -111,11 +153,14 @@ export class HybridRouter {
       // Check if fragment response
       const isFragment = response.headers.get(`${this.options.fragmentHeader}-Response`) === 'true';
       if (isFragment) {
-        this.cacheResponse(path, html);
+        this.cacheResponse(path, html, response.headers);
       }
 
       // Update DOM if content changed or no cache
-      if (!cachedHtml || html !== cachedHtml) {
+      if (!cachedHtml) {
+        await this.swap(html, direction);
+      } else if (html !== cachedHtml) {
+        // Fresh data for content already on screen, no transition
         this.updateDOM(html);
       }
 
@@ -138,6 +183,17 @@ export class HybridRouter {
     }
   };
 
+  private swap(html: string, direction: NavigationDirection): Promise<void> {
+    if (!this.options.viewTransitions) {
+      this.updateDOM(html);
+      return Promise.resolve();
+    }
+    return withViewTransition(() => this.updateDOM(html), {
+      direction,
+      outletAttribute: 'data-outlet',
+    });
+  }
+
   private updateDOM(html: string): void {
     const parser = new DOMParser();
     const doc = parser.parseFromString(html, 'text/html');
@@ -189,9 +245,9 @@ export class HybridRouter {
     }
   }
 
-  private cacheResponse(path: string, html: string): void {
-    this.cache.set(path, html);
-    setTimeout(() => this.cache.delete(path), this.options.cacheTTL);
+  private cacheResponse(path: string, html: string, headers: Headers): void {
+    const ttl = responseTTL(headers, `${this.options.fragmentHeader}-Response`);
+    this.cache.set(path, html, ttl ?? this.options.cacheTTL);
   }
 }
 
@@ -16,6 +16,8 @@ export {
   type SpaRouterOptions,
   type SpaRouteConfig,
   type RouteParams,
+  type PathParams,
+  type RouteGuardResult,
 } from './spa';
 
 // Scroll management
@@ -27,3 +29,32 @@ export {
   type ScrollPosition,
   type ScrollManagerOptions,
 } from './scroll';
+
+// View transitions
+export {
+  withViewTransition,
+  supportsViewTransitions,
+  type NavigationDirection,
+  type ViewTransitionOptions,
+} from './transition';
+
+// Morphing DOM swap
+export { morph, type MorphOptions } from './morph';
+
+// Client page cache
+export {
+  PageCache,
+  getPageCache,
+  responseTTL,
+  type PageCacheOptions,
+} from './page-cache';
+
+// Link prefetch policy
+export {
+  PrefetchPolicy,
+  getPrefetchPolicy,
+  type PrefetchStrategy,
+  type PrefetchHint,
+  type PrefetchRegistration,
+  type PrefetchPolicyOptions,
+} from './prefetch';
@@ -0,0 +1,154 @@
+/*! luna router-morph v1 - Morphing DOM swap */
+
+export interface MorphOptions {
+  /** Called with each element about to be removed (e.g. to unload islands) */
+  onRemove?: (el: Element) => void;
+}
+
+// Islands are hydrated in place; their rendered DOM differs from the SSR
+// markup, so they are kept or replaced whole, never morphed
+const isIsland = (node: Node): boolean =>
+  node.nodeType === Node.ELEMENT_NODE && (node as Element).hasAttribute('luna:url');
+
+// Stable identity of an element across renders
+const keyOf = (node: Node): string | null => {
+  if (node.nodeType !== Node.ELEMENT_NODE) return null;
+  const el = node as Element;
+  const lunaId = el.getAttribute('luna:id');
+  if (lunaId) return `luna:${lunaId}`;
+  return el.id ? `id:${el.id}` : null;
+};
+
+const isSameKind = (a: Node, b: Node): boolean =>
+  a.nodeType === b.nodeType &&
+  (a.nodeType !== Node.ELEMENT_NODE || (a as Element).tagName === (b as Element).tagName);
+
+// Serialized island state; `#id` references resolve against the island's document
+const islandState = (el: Element, root: ParentNode): string | null => {
+  const state = el.getAttribute('luna:state');
+  if (!state?.startsWith('#')) return state;
+  const id = state.slice(1);
+  const script =
+    (root as DocumentFragment).getElementById?.(id) ??
+    el.ownerDocument.getElementById(id);
+  return script?.textContent ?? null;
+};
+
+const syncAttributes = (from: Element, to: Element): void => {
+  for (const attr of Array.from(from.attributes)) {
+    if (!to.hasAttribute(attr.name)) from.removeAttribute(attr.name);
+  }
+  for (const attr of Array.from(to.attributes)) {
+    // Only the default value/checkedness changes; what the user typed stays
+    if (from.getAttribute(attr.name) !== attr.value) from.setAttribute(attr.name, attr.value);
+  }
+};
+
+const remove = (node: Node, options: MorphOptions): void => {
+  if (node.nodeType === Node.ELEMENT_NODE) options.onRemove?.(node as Element);
+  node.parentNode?.removeChild(node);
+};
+
+const morphNode = (from: Node, to: Node, toRoot: ParentNode, options: MorphOptions): void => {
+  if (from.nodeType !== Node.ELEMENT_NODE) {
+    if (from.nodeValue !== to.nodeValue) from.nodeValue = to.nodeValue;
+    return;
+  }
+
+  const fromEl = from as Element;
+  const toEl = to as Element;
+
+  if (isIsland(fromEl) || isIsland(toEl)) {
+    const unchanged =
+      isIsland(fromEl) &&
+      isIsland(toEl) &&
+      fromEl.getAttribute('luna:url') === toEl.getAttribute('luna:url') &&
+      islandState(fromEl, fromEl.ownerDocument) === islandState(toEl, toRoot);
+    if (!unchanged) {
+      // A fresh element is hydrated again by the next scan
+      options.onRemove?.(fromEl);
+      fromEl.replaceWith(fromEl.ownerDocument.importNode(toEl, true));
+    }
+    return;
+  }
+
+  syncAttributes(fromEl, toEl);
+  if (fromEl instanceof HTMLTemplateElement) {
+    if (fromEl.innerHTML !== toEl.innerHTML) fromEl.innerHTML = toEl.innerHTML;
+    return;
+  }
+  morphChildren(fromEl, toEl, toRoot, options);
+};
+
+const morphChildren = (
+  from: ParentNode,
+  to: ParentNode,
+  toRoot: ParentNode,
+  options: MorphOptions
+): void => {
+  const doc = (from as Node).ownerDocument ?? (from as Document);
+
+  const keyed = new Map<string, Node>();
+  from.childNodes.forEach(child => {
+    const key = keyOf(child);
+    if (key) keyed.set(key, child);
+  });
+
+  const incoming = new Set<string>();
+  to.childNodes.forEach(child => {
+    const key = keyOf(child);
+    if (key) incoming.add(key);
+  });
+
+  // Nodes before the cursor are settled; everything from it on is unmatched
+  let cursor: Node | null = from.firstChild;
+  for (const next of Array.from(to.childNodes)) {
+    // Drop keyed nodes that are gone so they don't block positional matches
+    while (cursor && keyOf(cursor) && !incoming.has(keyOf(cursor)!)) {
+      const stale: Node = cursor;
+      cursor = cursor.nextSibling;
+      remove(stale, options);
+    }
+
+    const key = keyOf(next);
+    let match: Node | null = null;
+    if (key) {
+      const candidate = keyed.get(key);
+      if (candidate && isSameKind(candidate, next)) match = candidate;
+    }
+    if (!match && cursor && !keyOf(cursor) && !key && isSameKind(cursor, next)) {
+      match = cursor;
+    }
+
+    if (match) {
+      if (key) keyed.delete(key);
+      if (match === cursor) {
+        cursor = cursor.nextSibling;
+      } else {
+        from.insertBefore(match, cursor);
+      }
+      morphNode(match, next, toRoot, options);
+    } else {
+      from.insertBefore(doc.importNode(next, true), cursor);
+    }
+  }
+
+  while (cursor) {
+    const stale: Node = cursor;
+    cursor = cursor.nextSibling;
+    remove(stale, options);
+  }
+};
+
+/**
+ * Morph the children of `target` into `source`'s children
+ *
+ * Elements with the same `luna:id` or `id` are matched wherever they move,
+ * other nodes by position and tag. Matched nodes are updated in place, so
+ * focus, typed input values and media playback survive. Islands whose
+ * `luna:url` and serialized `luna:state` did not change are left untouched
+ * (and so are not hydrated again); changed islands are replaced.
+ */
+export function morph(target: Element, source: ParentNode, options: MorphOptions = {}): void {
+  morphChildren(target, source, source, options);
+}
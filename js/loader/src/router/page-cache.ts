@@ -0,0 +1,149 @@
+/*! luna router-page-cache v1 - Client page cache */
+
+export interface PageCacheOptions {
+  /** Max entries before the least recently used is evicted (default: 50) */
+  maxEntries?: number;
+  /** TTL in ms when the response does not set one (default: 5 minutes) */
+  defaultTTL?: number;
+}
+
+interface PageCacheEntry {
+  html: string;
+  expiresAt: number;
+}
+
+/**
+ * PageCache keeps fetched page HTML for CSR navigation
+ * - Bounded LRU (least recently used entries are evicted first)
+ * - Per-entry expiry
+ * - Keys are normalized to pathname + search (hash ignored)
+ */
+export class PageCache {
+  private options: Required<PageCacheOptions>;
+  // Map iteration order doubles as recency order (oldest first)
+  private entries = new Map<string, PageCacheEntry>();
+
+  constructor(options: PageCacheOptions = {}) {
+    this.options = {
+      maxEntries: options.maxEntries ?? 50,
+      defaultTTL: options.defaultTTL ?? 5 * 60 * 1000,
+    };
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get cached HTML for a URL, if fresh
+   */
+  get(url: string): string | undefined {
+    const key = this.key(url);
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.html;
+  }
+
+  has(url: string): boolean {
+    return this.get(url) !== undefined;
+  }
+
+  /**
+   * Cache HTML for a URL; a TTL of 0 or less removes the entry instead
+   */
+  set(url: string, html: string, ttl = this.options.defaultTTL): void {
+    const key = this.key(url);
+    this.entries.delete(key);
+    if (ttl <= 0) return;
+
+    this.entries.set(key, { html, expiresAt: Date.now() + ttl });
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.options.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(url: string): boolean {
+    return this.entries.delete(this.key(url));
+  }
+
+  /**
+   * Remove entries for `prefix` and the paths below it (all entries by default)
+   *
+   * Matches whole segments: `/blog` drops `/blog/a` and `/blog?page=2`
+   * but keeps `/blog-archive`.
+   */
+  invalidate(prefix = ''): void {
+    if (!prefix) {
+      this.clear();
+      return;
+    }
+    const path = this.key(prefix);
+    const below = path.endsWith('/') ? path : `${path}/`;
+    const matches = (key: string) =>
+      key === path || key.startsWith(below) || key.startsWith(`${path}?`);
+    for (const key of Array.from(this.entries.keys())) {
+      if (matches(key)) this.entries.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private key(url: string): string {
+    try {
+      const parsed = new URL(url, location.href);
+      return parsed.pathname + parsed.search;
+    } catch {
+      return url;
+    }
+  }
+}
+
+/**
+ * TTL in ms a response allows it to be cached for
+ *
+ * `max-age` on the fragment response header (e.g. `true; max-age=60`) wins
+ * over `Cache-Control`; `no-store`/`no-cache` disable caching. Returns
+ * undefined when neither header sets a lifetime, so `PageCache.set` falls
+ * back to its default TTL.
+ */
+export function responseTTL(
+  headers: Headers,
+  fragmentResponseHeader = 'X-Sol-Fragment-Response'
+): number | undefined {
+  const maxAge = (value: string | null): number | null => {
+    const match = value?.match(/(?:^|[\s;,])max-age=(\d+)/i);
+    return match ? Number(match[1]) * 1000 : null;
+  };
+
+  const fragment = maxAge(headers.get(fragmentResponseHeader));
+  if (fragment !== null) return fragment;
+
+  const cacheControl = headers.get('Cache-Control');
+  if (cacheControl && /(?:^|[\s,])no-(?:store|cache)\b/i.test(cacheControl)) return 0;
+  return maxAge(cacheControl) ?? undefined;
+}
+
+// Shared through the window so separately bundled routers (sol-nav,
+// HybridRouter) use one cache
+type PageCacheWindow = Window & { __SOL_CACHE__?: PageCache };
+
+/**
+ * Get or create the shared page cache
+ */
+export function getPageCache(options?: PageCacheOptions): PageCache {
+  const w = window as PageCacheWindow;
+  if (!(w.__SOL_CACHE__ && typeof w.__SOL_CACHE__.invalidate === 'function')) {
+    w.__SOL_CACHE__ = new PageCache(options);
+  }
+  return w.__SOL_CACHE__;
+}
@@ -0,0 +1,332 @@
+/*! luna router-prefetch v1 - Link prefetch policy */
+
+/**
+ * When a link is prefetched, from its `data-sol-prefetch` attribute:
+ * - viewport: once the link scrolls into view
+ * - intent: on hover, touchstart or focus (also a bare `data-sol-prefetch`)
+ * - eager: as soon as the link is in the document
+ * - none: never
+ */
+export type PrefetchStrategy = 'viewport' | 'intent' | 'eager' | 'none';
+
+/**
+ * Browser-level hint added next to the prefetch handler, so the full
+ * document is also warm for non-CSR navigations
+ */
+export type PrefetchHint = 'none' | 'link' | 'speculation';
+
+export interface PrefetchRegistration {
+  /** Links this registration prefetches for */
+  selector: string;
+  /** Extra check on matching links */
+  filter?: (link: HTMLAnchorElement) => boolean;
+  /** Strategy of links without a `data-sol-prefetch` attribute (default: "none") */
+  defaultStrategy?: PrefetchStrategy;
+  /** Browser hint for prefetched URLs (default: "none") */
+  hint?: PrefetchHint;
+  /** Prefetch resources for an internal URL (pathname + search) */
+  prefetch: (url: string) => void | Promise<unknown>;
+}
+
+export interface PrefetchPolicyOptions {
+  /** Max prefetches in flight (default: 2) */
+  concurrency?: number;
+  /** Hover delay in ms before an intent prefetch (default: 50) */
+  intentDelay?: number;
+  /** IntersectionObserver root margin for viewport prefetch (default: "200px") */
+  rootMargin?: string;
+}
+
+interface Registration extends Required<Omit<PrefetchRegistration, 'filter'>> {
+  filter?: (link: HTMLAnchorElement) => boolean;
+  /** URLs queued or in flight for this registration */
+  pending: Set<string>;
+  /** URLs already prefetched for eager or viewport links */
+  prefetched: Set<string>;
+}
+
+const STRATEGIES: readonly string[] = ['viewport', 'intent', 'eager', 'none'];
+
+/**
+ * PrefetchPolicy decides when links are prefetched
+ * - One set of triggers for every registration (sol-nav data, router chunks),
+ *   so the resources of a link are requested together
+ * - Skipped entirely when the user asked to save data
+ * - Bounded number of prefetches in flight
+ */
+export class PrefetchPolicy {
+  private options: Required<PrefetchPolicyOptions>;
+  private registrations = new Set<Registration>();
+  private queue: (() => Promise<unknown>)[] = [];
+  private active = 0;
+  private hinted = new Set<string>();
+  private viewport: IntersectionObserver | null = null;
+  private mutations: MutationObserver | null = null;
+  private hoverLink: HTMLAnchorElement | null = null;
+  private hoverTimer: number | undefined;
+
+  constructor(options: PrefetchPolicyOptions = {}) {
+    this.options = {
+      concurrency: options.concurrency ?? 2,
+      intentDelay: options.intentDelay ?? 50,
+      rootMargin: options.rootMargin ?? '200px',
+    };
+  }
+
+  /**
+   * Update options of a running policy (e.g. one another router created)
+   */
+  configure(options: PrefetchPolicyOptions): void {
+    const { rootMargin } = this.options;
+    this.options = {
+      concurrency: options.concurrency ?? this.options.concurrency,
+      intentDelay: options.intentDelay ?? this.options.intentDelay,
+      rootMargin: options.rootMargin ?? rootMargin,
+    };
+    this.drain();
+    // The viewport observer takes its margin at construction
+    if (this.mutations && this.options.rootMargin !== rootMargin) {
+      this.stop();
+      this.start();
+      this.scan();
+    }
+  }
+
+  /**
+   * Register a prefetch handler; returns a function that removes it
+   */
+  register(registration: PrefetchRegistration): () => void {
+    const entry: Registration = {
+      defaultStrategy: 'none',
+      hint: 'none',
+      ...registration,
+      pending: new Set(),
+      prefetched: new Set(),
+    };
+    this.registrations.add(entry);
+    this.start();
+    this.scan();
+
+    return () => {
+      this.registrations.delete(entry);
+      if (this.registrations.size === 0) this.stop();
+    };
+  }
+
+  /**
+   * Find links to prefetch eagerly or once visible (runs automatically on
+   * added DOM nodes); links whose URL was prefetched before are skipped
+   */
+  scan(root: ParentNode = document): void {
+    if (this.saveData()) return;
+    for (const registration of this.registrations) {
+      const links = Array.from(root.querySelectorAll<HTMLAnchorElement>(registration.selector));
+      if (root instanceof Element && root.matches(registration.selector)) {
+        links.push(root as HTMLAnchorElement);
+      }
+      for (const link of links) {
+        const url = this.internalUrl(link.getAttribute('href'));
+        if (!url || registration.prefetched.has(url)) continue;
+        const strategy = this.strategyOf(link, registration);
+        if (strategy === 'eager') {
+          this.trigger(link, 'eager');
+        } else if (strategy === 'viewport') {
+          this.viewport?.observe(link);
+        }
+      }
+    }
+  }
+
+  /**
+   * Remove every trigger and registration (e.g. before tearing the page down)
+   */
+  disconnect(): void {
+    this.registrations.clear();
+    this.queue = [];
+    this.stop();
+  }
+
+  private start(): void {
+    if (this.mutations) return;
+
+    document.addEventListener('mouseenter', this.handleHover, { capture: true });
+    document.addEventListener('mouseleave', this.handleLeave, { capture: true });
+    document.addEventListener('touchstart', this.handleIntent, { capture: true, passive: true });
+    document.addEventListener('focusin', this.handleIntent);
+
+    if (typeof IntersectionObserver !== 'undefined') {
+      this.viewport = new IntersectionObserver(entries => {
+        for (const entry of entries) {
+          if (!entry.isIntersecting) continue;
+          this.viewport?.unobserve(entry.target);
+          this.trigger(entry.target as HTMLAnchorElement, 'viewport');
+        }
+      }, { rootMargin: this.options.rootMargin });
+    }
+
+    // Pick up links added by navigations and client rendering (records
+    // are already batched per task)
+    this.mutations = new MutationObserver(records => {
+      for (const record of records) {
+        record.addedNodes.forEach(node => {
+          if (node.nodeType === Node.ELEMENT_NODE) this.scan(node as Element);
+        });
+      }
+    });
+    this.mutations.observe(document.documentElement, { childList: true, subtree: true });
+  }
+
+  private stop(): void {
+    document.removeEventListener('mouseenter', this.handleHover, { capture: true });
+    document.removeEventListener('mouseleave', this.handleLeave, { capture: true });
+    document.removeEventListener('touchstart', this.handleIntent, { capture: true });
+    document.removeEventListener('focusin', this.handleIntent);
+    this.viewport?.disconnect();
+    this.viewport = null;
+    this.mutations?.disconnect();
+    this.mutations = null;
+    this.cancelHover();
+  }
+
+  // mouseenter also fires for elements inside the hovered link
+  private handleHover = (e: Event): void => {
+    const link = this.linkOf(e.target);
+    if (!link || link === this.hoverLink) return;
+    this.cancelHover();
+    this.hoverLink = link;
+    this.hoverTimer = window.setTimeout(() => {
+      this.hoverLink = null;
+      this.trigger(link, 'intent');
+    }, this.options.intentDelay);
+  };
+
+  // Passing over a link is not intent to follow it
+  private handleLeave = (e: Event): void => {
+    if (e.target === this.hoverLink) this.cancelHover();
+  };
+
+  private cancelHover(): void {
+    window.clearTimeout(this.hoverTimer);
+    this.hoverLink = null;
+  }
+
+  private handleIntent = (e: Event): void => {
+    const link = this.linkOf(e.target);
+    if (link) this.trigger(link, 'intent');
+  };
+
+  private linkOf(target: EventTarget | null): HTMLAnchorElement | null {
+    const el = target as Element | null;
+    return el?.closest ? el.closest<HTMLAnchorElement>('a[href]') : null;
+  }
+
+  private strategyOf(link: HTMLAnchorElement, registration: Registration): PrefetchStrategy {
+    if (!link.matches(registration.selector) || registration.filter?.(link) === false) {
+      return 'none';
+    }
+    const value = link.getAttribute('data-sol-prefetch');
+    if (value === null) return registration.defaultStrategy;
+    // A bare attribute keeps its original meaning (prefetch on hover)
+    return STRATEGIES.includes(value) ? (value as PrefetchStrategy) : 'intent';
+  }
+
+  private trigger(link: HTMLAnchorElement, kind: 'viewport' | 'intent' | 'eager'): void {
+    if (this.saveData()) return;
+    const url = this.internalUrl(link.getAttribute('href'));
+    if (!url) return;
+
+    for (const registration of this.registrations) {
+      const strategy = this.strategyOf(link, registration);
+      // Interacting with a link is reason enough if it is prefetched at all
+      // (this also covers viewport links without IntersectionObserver)
+      const matches = strategy !== 'none' && (strategy === kind || kind === 'intent');
+      // Handlers skip what they already have, so intent only dedupes
+      // in-flight URLs; eager and viewport links prefetch once
+      if (!matches || registration.pending.has(url)) continue;
+      if (kind !== 'intent') {
+        if (registration.prefetched.has(url)) continue;
+        registration.prefetched.add(url);
+      }
+
+      registration.pending.add(url);
+      this.addHint(url, registration.hint);
+      this.enqueue(() =>
+        new Promise(resolve => resolve(registration.prefetch(url))).finally(() =>
+          registration.pending.delete(url)
+        )
+      );
+    }
+  }
+
+  private enqueue(task: () => Promise<unknown>): void {
+    this.queue.push(task);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.active < this.options.concurrency && this.queue.length > 0) {
+      const task = this.queue.shift()!;
+      this.active++;
+      task()
+        .catch(() => { /* prefetch failures are not fatal */ })
+        .finally(() => {
+          this.active--;
+          this.drain();
+        });
+    }
+  }
+
+  private addHint(url: string, hint: PrefetchHint): void {
+    if (hint === 'none' || this.hinted.has(url)) return;
+    this.hinted.add(url);
+
+    const scriptSupports = (HTMLScriptElement as unknown as { supports?: (type: string) => boolean }).supports;
+    if (hint === 'speculation' && scriptSupports?.('speculationrules')) {
+      const script = document.createElement('script');
+      script.type = 'speculationrules';
+      script.textContent = JSON.stringify({ prefetch: [{ source: 'list', urls: [url] }] });
+      document.head.appendChild(script);
+      return;
+    }
+
+    // <link rel=prefetch> also covers browsers without Speculation Rules
+    const link = document.createElement('link');
+    link.rel = 'prefetch';
+    link.href = url;
+    document.head.appendChild(link);
+  }
+
+  private internalUrl(href: string | null): string | null {
+    if (!href) return null;
+    try {
+      const url = new URL(href, window.location.href);
+      if (url.origin !== window.location.origin) return null;
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+      return url.pathname + url.search;
+    } catch {
+      return null;
+    }
+  }
+
+  private saveData(): boolean {
+    if (typeof navigator === 'undefined') return false;
+    const connection = (navigator as Navigator & { connection?: { saveData?: boolean } }).connection;
+    return connection?.saveData === true;
+  }
+}
+
+// Shared through the window like the page cache (see getPageCache)
+type PrefetchWindow = Window & { __LUNA_PREFETCH_POLICY__?: PrefetchPolicy };
+
+/**
+ * Get or create the shared prefetch policy
+ */
+export function getPrefetchPolicy(options?: PrefetchPolicyOptions): PrefetchPolicy {
+  const w = window as PrefetchWindow;
+  if (!(w.__LUNA_PREFETCH_POLICY__ && typeof w.__LUNA_PREFETCH_POLICY__.register === 'function')) {
+    w.__LUNA_PREFETCH_POLICY__ = new PrefetchPolicy(options);
+  } else if (options) {
+    w.__LUNA_PREFETCH_POLICY__.configure(options);
+  }
+  return w.__LUNA_PREFETCH_POLICY__;
+}
@@ -121,7 +121,12 @@ export class ScrollManager {
     }
 
     // Try querySelector for other selectors
-    return this.scrollToElement(hash);
+    try {
+      return this.scrollToElement(hash);
+    } catch {
+      // Not a valid selector (e.g. "#1-intro")
+      return false;
+    }
   }
 
   private loadFromStorage(): void {
@@ -2,22 +2,100 @@
 
 import { getNavigationRouter, NavigateEvent } from './navigation';
 
-export interface SpaRouteConfig {
-  /** Route path pattern (e.g., "/app", "/app/*") */
-  path: string;
-  /** Render function for the route */
-  render: (params: RouteParams) => void | Promise<void>;
-  /** Pattern for dynamic segments (optional) */
-  pattern?: RegExp;
-}
+// ============================================================================
+// Path pattern types
+// ============================================================================
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// Params of one path segment; an untyped (`string`) segment allows any param
+type SegmentParams<S extends string> =
+  string extends S ? Record<string, string>
+  : S extends `[[...${infer N}]]` ? { [K in N]?: string }
+  : S extends `[...${infer N}]` ? { [K in N]: string }
+  : S extends `:...${infer N}` ? { [K in N]: string }
+  : S extends `[${infer N}]` ? { [K in N]: string }
+  : S extends `${string}:${infer N}` ? { [K in N]: string }
+  : {};
+
+type PathSegmentParams<P extends string> =
+  P extends `${infer Head}/${infer Tail}`
+    ? SegmentParams<Head> & PathSegmentParams<Tail>
+    : SegmentParams<P>;
+
+/**
+ * Params of a path pattern, e.g. `PathParams<'/users/:id/[[...tab]]'>`
+ * is `{ id: string; tab?: string }`
+ */
+export type PathParams<P extends string> = Simplify<PathSegmentParams<P>>;
+
+/** Full pattern of a route nested under `Parent` */
+type JoinPaths<Parent extends string, P extends string> =
+  Parent extends '' ? P : `${Parent}/${P}`;
 
-export interface RouteParams {
+// ============================================================================
+// Route config
+// ============================================================================
+
+export interface RouteParams<Params = Record<string, string>> {
   /** URL path */
   path: string;
   /** Path parameters from dynamic segments */
-  params: Record<string, string>;
+  params: Params;
   /** Search params */
   query: URLSearchParams;
+  /** Element to render into: the enclosing layout's outlet, or the container */
+  outlet: HTMLElement | null;
+}
+
+/**
+ * Guard result: `false` cancels the navigation, a path redirects to it,
+ * anything else lets the navigation through
+ */
+export type RouteGuardResult = boolean | string | void;
+
+/**
+ * SPA route
+ *
+ * Paths use the segment syntax of the manifest's dynamic patterns:
+ * `:id` or `[id]` for one segment, `[...path]` or `:...path` for one or more
+ * segments and `[[...path]]` for zero or more (last segment only). A bare
+ * `*` matches anything without naming it. Child paths are relative to
+ * their parent's.
+ *
+ * `Children` holds the paths of `children`, so each child written inline
+ * in `route()` gets the params of its own full pattern. Deeper descendants
+ * see untyped params.
+ */
+export interface SpaRouteConfig<
+  P extends string = string,
+  Parent extends string = '',
+  Children extends readonly string[] = string[],
+> {
+  /** Route path pattern (e.g., "/app", "/app/*", "/users/:id") */
+  path: P;
+  /** Render function for the route */
+  render?(params: RouteParams<PathParams<JoinPaths<Parent, P>>>): void | Promise<void>;
+  /** Pattern for dynamic segments (optional, overrides `path` matching) */
+  pattern?: RegExp;
+  /**
+   * Render a layout around this route and its children. Returns the element
+   * they render into (the layout's own outlet when nothing is returned).
+   * Layouts stay mounted while navigating between their children and render
+   * again only when their own params change.
+   */
+  layout?(
+    params: RouteParams<PathParams<JoinPaths<Parent, P>>>
+  ): HTMLElement | null | void | Promise<HTMLElement | null | void>;
+  /** Nested routes */
+  children?: { [K in keyof Children]: SpaRouteConfig<Children[K], JoinPaths<Parent, P>> };
+  /** Guard run before entering this route or any of its children, outermost first */
+  beforeEnter?(
+    to: RouteParams<PathParams<JoinPaths<Parent, P>>>,
+    from: RouteParams | null
+  ): RouteGuardResult | Promise<RouteGuardResult>;
+  /** Redirect when this route is matched itself (not one of its children) */
+  redirect?: string | ((to: RouteParams<PathParams<JoinPaths<Parent, P>>>) => string);
 }
 
 export interface SpaRouterOptions {
@@ -34,18 +112,53 @@ interface ScrollPosition {
   y: number;
 }
 
+// A route type-erased for matching; typed configs are checked at registration
+type AnyRouteConfig = SpaRouteConfig<string, string>;
+
+interface CompiledPath {
+  regex: RegExp;
+  /** Names of the positional capture groups */
+  params: string[];
+}
+
+interface RouteNode {
+  config: AnyRouteConfig;
+  compiled: CompiledPath;
+}
+
+interface RouteEntry {
+  /** Matched route and its ancestors, outermost first */
+  chain: RouteNode[];
+}
+
+interface MountedLayout {
+  node: RouteNode;
+  /** Params the layout was rendered with */
+  key: string;
+  outlet: HTMLElement | null;
+}
+
+// Consecutive guard redirects before the navigation is treated as failed
+const MAX_REDIRECTS = 10;
+
 /**
  * SpaRouter handles client-side rendered routes
- * - Route matching with dynamic segments
- * - Client-side rendering
+ * - Route matching with dynamic and catch-all segments
+ * - Nested routes with persistent layouts
+ * - Route guards and redirects
  * - Designed for SPA sections within a larger site
  */
 export class SpaRouter {
   private options: Required<Omit<SpaRouterOptions, 'fallbackPath'>> & Pick<SpaRouterOptions, 'fallbackPath'>;
-  private routeConfigs: SpaRouteConfig[] = [];
+  private entries: RouteEntry[] = [];
   private scrollPositions = new Map<string, ScrollPosition>();
   private unsubscribe: (() => void) | null = null;
   private currentPath: string = '';
+  private currentUrl: string = '';
+  private current: RouteParams | null = null;
+  private mounted: MountedLayout[] = [];
+  private navigationId = 0;
+  private redirects = 0;
 
   constructor(options: SpaRouterOptions = {}) {
     this.options = {
@@ -56,14 +169,10 @@ export class SpaRouter {
   }
 
   /**
-   * Register a route
+   * Register a route (and its children)
    */
-  route(config: SpaRouteConfig): this {
-    // Convert path pattern to regex if not provided
-    if (!config.pattern) {
-      config.pattern = this.pathToRegex(config.path);
-    }
-    this.routeConfigs.push(config);
+  route<P extends string, C extends readonly string[] = []>(config: SpaRouteConfig<P, '', C>): this {
+    this.addRoute(config as unknown as AnyRouteConfig, '', []);
     return this;
   }
 
@@ -101,6 +210,8 @@ export class SpaRouter {
   stop(): void {
     this.unsubscribe?.();
     this.unsubscribe = null;
+    this.navigationId++;
+    this.mounted = [];
   }
 
   /**
@@ -110,106 +221,261 @@ export class SpaRouter {
     return document.querySelector(this.options.containerSelector);
   }
 
-  private handleNavigate = async (event: NavigateEvent): Promise<void> => {
-    const { path, isPopState } = event;
-    // Save scroll position before navigation
-    if (this.options.scrollRestoration && !isPopState && this.currentPath) {
-      this.scrollPositions.set(this.currentPath, {
-        x: window.scrollX,
-        y: window.scrollY,
-      });
+  private addRoute(config: AnyRouteConfig, parentPath: string, ancestors: RouteNode[]): void {
+    const path = parentPath ? joinPaths(parentPath, config.path) : config.path;
+    const node: RouteNode = {
+      config,
+      compiled: config.pattern ? { regex: config.pattern, params: [] } : compilePath(path),
+    };
+    const chain = [...ancestors, node];
+
+    // A route is matched itself when it renders something; its children
+    // come after it, in order
+    if (config.render || config.redirect !== undefined || !config.children) {
+      this.entries.push({ chain });
     }
+    config.children?.forEach(child => this.addRoute(child, path, chain));
+  }
 
-    this.currentPath = path;
+  private handleNavigate = async (event: NavigateEvent): Promise<void> => {
+    const { isPopState } = event;
+    // Navigation routers may pass the query along with the path
+    const path = event.path.split(/[?#]/)[0] || '/';
+    const id = ++this.navigationId;
 
     // Find matching route
     const match = this.matchRoute(path);
 
-    if (match) {
-      const params = this.extractParams(match.route, path);
-      const query = new URLSearchParams(window.location.search);
-
-      try {
-        await match.route.render({ path, params, query });
-
-        // Dispatch navigation complete event
-        window.dispatchEvent(new CustomEvent('luna:navigation-complete', {
-          detail: { path, params, query },
-        }));
-
-        // Handle scroll
-        if (this.options.scrollRestoration) {
-          if (isPopState) {
-            const saved = this.scrollPositions.get(path);
-            if (saved) {
-              window.scrollTo(saved.x, saved.y);
-            }
-          } else {
-            window.scrollTo(0, 0);
+    if (!match) {
+      this.redirects = 0;
+      if (this.options.fallbackPath) {
+        // Redirect to fallback
+        const router = getNavigationRouter();
+        router.navigate(this.options.fallbackPath, { replace: true });
+      }
+      return;
+    }
+
+    const to: RouteParams = {
+      path,
+      params: match.params,
+      query: new URLSearchParams(window.location.search),
+      outlet: null,
+    };
+
+    try {
+      const result = await this.runGuards(match.entry, to);
+      if (id !== this.navigationId) return;
+      if (result === false) {
+        this.redirects = 0;
+        this.cancel();
+        return;
+      }
+      if (typeof result === 'string') {
+        await this.redirect(result, path);
+        return;
+      }
+      this.redirects = 0;
+
+      // Save scroll position before navigation
+      if (this.options.scrollRestoration && !isPopState && this.currentPath) {
+        this.scrollPositions.set(this.currentPath, {
+          x: window.scrollX,
+          y: window.scrollY,
+        });
+      }
+
+      this.currentPath = path;
+      this.currentUrl = window.location.pathname + window.location.search + window.location.hash;
+      this.current = to;
+
+      const outlet = await this.renderLayouts(match.entry, to, id);
+      if (outlet === undefined) return;
+      await match.entry.chain[match.entry.chain.length - 1].config.render?.({ ...to, outlet });
+      if (id !== this.navigationId) return;
+
+      // Dispatch navigation complete event
+      window.dispatchEvent(new CustomEvent('luna:navigation-complete', {
+        detail: { path, params: to.params, query: to.query },
+      }));
+
+      // Handle scroll
+      if (this.options.scrollRestoration) {
+        if (isPopState) {
+          const saved = this.scrollPositions.get(path);
+          if (saved) {
+            window.scrollTo(saved.x, saved.y);
           }
+        } else {
+          window.scrollTo(0, 0);
         }
-      } catch {
-        // Dispatch error event
-        window.dispatchEvent(new CustomEvent('luna:navigation-error', {
-          detail: { path },
-        }));
       }
-    } else if (this.options.fallbackPath) {
-      // Redirect to fallback
-      const router = getNavigationRouter();
-      router.navigate(this.options.fallbackPath, { replace: true });
+    } catch {
+      // Layouts may be half rendered; render them again next time
+      this.mounted = [];
+      this.redirects = 0;
+      // Dispatch error event
+      window.dispatchEvent(new CustomEvent('luna:navigation-error', {
+        detail: { path },
+      }));
     }
   };
 
-  private matchRoute(path: string): { route: SpaRouteConfig } | null {
-    for (const route of this.routeConfigs) {
-      if (route.pattern?.test(path)) {
-        return { route };
-      }
+  /**
+   * Run `beforeEnter` guards outermost first, then the matched route's redirect
+   */
+  private async runGuards(entry: RouteEntry, to: RouteParams): Promise<RouteGuardResult> {
+    for (const { config } of entry.chain) {
+      const result = await config.beforeEnter?.(to, this.current);
+      if (result === false || typeof result === 'string') return result;
     }
-    return null;
+    const { redirect } = entry.chain[entry.chain.length - 1].config;
+    return typeof redirect === 'function' ? redirect(to) : redirect;
   }
 
-  private extractParams(route: SpaRouteConfig, path: string): Record<string, string> {
-    const params: Record<string, string> = {};
-
-    if (!route.pattern) return params;
+  private async redirect(target: string, path: string): Promise<void> {
+    if (++this.redirects > MAX_REDIRECTS) {
+      this.redirects = 0;
+      window.dispatchEvent(new CustomEvent('luna:navigation-error', {
+        detail: { path },
+      }));
+      return;
+    }
+    await getNavigationRouter().navigate(target, { replace: true });
+  }
 
-    const match = path.match(route.pattern);
-    if (!match?.groups) return params;
+  /**
+   * Put the URL of the current route back; the history entry was already
+   * pushed (or traversed to) by the time guards run
+   */
+  private cancel(): void {
+    if (this.currentUrl) history.replaceState(history.state, '', this.currentUrl);
+  }
 
-    // Extract named groups
-    for (const [key, value] of Object.entries(match.groups)) {
-      if (value !== undefined) {
-        params[key] = value;
+  /**
+   * Render the layouts of a route, keeping those still mounted with the
+   * same params. Resolves with the outlet the route renders into, or
+   * undefined when a newer navigation took over.
+   */
+  private async renderLayouts(
+    entry: RouteEntry,
+    to: RouteParams,
+    id: number
+  ): Promise<HTMLElement | null | undefined> {
+    let outlet = this.getContainer();
+    let reuse = true;
+    const mounted: MountedLayout[] = [];
+
+    for (const node of entry.chain) {
+      if (!node.config.layout) continue;
+      const key = JSON.stringify(node.compiled.params.map(name => to.params[name]));
+      const previous = this.mounted[mounted.length];
+
+      if (reuse && previous?.node === node && previous.key === key) {
+        outlet = previous.outlet;
+        mounted.push(previous);
+        continue;
       }
+      // Everything inside a re-rendered layout renders again too
+      reuse = false;
+      const rendered = await node.config.layout({ ...to, outlet });
+      if (id !== this.navigationId) return undefined;
+      outlet = rendered ?? outlet;
+      mounted.push({ node, key, outlet });
     }
 
-    return params;
+    this.mounted = mounted;
+    return outlet;
   }
 
-  private pathToRegex(path: string): RegExp {
-    // Convert path pattern to regex
-    // /app -> ^/app$
-    // /app/* -> ^/app/.*$
-    // /app/:id -> ^/app/(?<id>[^/]+)$
-    // /app/:id/* -> ^/app/(?<id>[^/]+)/.*$
-
-    let pattern = path
-      // Escape special regex chars except * and :
-      .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
-      // Convert :param to named group
-      .replace(/:([a-zA-Z_][a-zA-Z0-9_]*)/g, '(?<$1>[^/]+)')
-      // Convert /* to wildcard
-      .replace(/\*/g, '.*');
-
-    // Ensure full match
-    if (!pattern.endsWith('.*')) {
-      pattern += '/?';
+  private matchRoute(path: string): { entry: RouteEntry; params: Record<string, string> } | null {
+    for (const entry of this.entries) {
+      const params = matchPath(entry.chain[entry.chain.length - 1].compiled, path);
+      if (params) {
+        return { entry, params };
+      }
+    }
+    return null;
+  }
+}
+
+// ============================================================================
+// Path patterns
+// ============================================================================
+
+function joinPaths(parent: string, child: string): string {
+  const base = parent.replace(/\/+$/, '');
+  const rest = child.replace(/^\/+/, '');
+  return rest ? `${base}/${rest}` : base || '/';
+}
+
+const escapeRegex = (value: string): string => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compile a path pattern to a regex with positional params
+ *
+ * /app -> ^/app/?$
+ * /app/* -> ^/app/.*$
+ * /app/:id -> ^/app/([^/]+)/?$
+ * /docs/[...path] -> ^/docs/(.+)$
+ * /docs/[[...path]] -> ^/docs(?:/(.+))?/?$
+ */
+function compilePath(path: string): CompiledPath {
+  const params: string[] = [];
+  let pattern = '';
+  let open = false;
+
+  for (const segment of path.split('/').filter(Boolean)) {
+    const optionalCatchAll = segment.match(/^\[\[\.\.\.(.+)\]\]$/);
+    const catchAll = segment.match(/^(?:\[\.\.\.(.+)\]|:\.\.\.(.+))$/);
+    const param = segment.match(/^\[(.+)\]$/);
+
+    if (optionalCatchAll) {
+      params.push(optionalCatchAll[1]);
+      pattern += '(?:/(.+))?';
+    } else if (catchAll) {
+      params.push(catchAll[1] ?? catchAll[2]);
+      pattern += '/(.+)';
+      open = true;
+    } else if (param) {
+      params.push(param[1]);
+      pattern += '/([^/]+)';
+    } else {
+      // Inline params (e.g. "post-:id") and wildcards
+      pattern += '/' + escapeRegex(segment)
+        .replace(/:([a-zA-Z_][a-zA-Z0-9_]*)/g, (_, name: string) => {
+          params.push(name);
+          return '([^/]+)';
+        })
+        .replace(/\*/g, '.*');
+      open = segment.endsWith('*');
     }
+  }
 
-    return new RegExp(`^${pattern}$`);
+  // Ensure full match
+  if (!pattern) return { regex: /^\/$/, params };
+  return { regex: new RegExp(`^${pattern}${open ? '' : '/?'}$`), params };
+}
+
+/**
+ * Match a path, returning its params
+ */
+function matchPath(compiled: CompiledPath, path: string): Record<string, string> | null {
+  const match = path.match(compiled.regex);
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+
+  // Positional params, then named groups of custom patterns
+  compiled.params.forEach((name, i) => {
+    const value = match[i + 1];
+    if (value !== undefined) params[name] = value;
+  });
+  for (const [key, value] of Object.entries(match.groups ?? {})) {
+    if (value !== undefined) params[key] = value;
   }
+
+  return params;
 }
 
 // Global singleton
@@ -0,0 +1,81 @@
+/*! luna router-transition v1 - View Transitions for DOM swaps */
+
+export type NavigationDirection = 'forward' | 'back';
+
+export interface ViewTransitionOptions {
+  /** Direction hint, exposed as a transition type and `html[data-sol-direction]` */
+  direction: NavigationDirection;
+  /**
+   * Attribute marking swapped outlets (e.g. "data-sol-outlet"). Outlets
+   * without a `view-transition-name` get `<attribute without data->-<value>`
+   * so they animate as their own groups.
+   */
+  outletAttribute?: string;
+}
+
+// View Transitions API (not in every TypeScript DOM lib yet)
+interface ViewTransitionLike {
+  finished: Promise<void>;
+  updateCallbackDone: Promise<void>;
+  types?: Set<string>;
+}
+
+type StartViewTransition = (update: () => void) => ViewTransitionLike;
+
+/**
+ * Check if the View Transitions API is available
+ */
+export function supportsViewTransitions(): boolean {
+  return typeof (document as unknown as { startViewTransition?: unknown }).startViewTransition === 'function';
+}
+
+/**
+ * Run a DOM update inside a view transition
+ *
+ * Falls back to a plain update when the API is missing. Resolves with the
+ * update's result once the DOM is updated (not when the animation ends);
+ * rejects if the update throws.
+ */
+export function withViewTransition<T>(
+  update: () => T,
+  options: ViewTransitionOptions
+): Promise<T> {
+  if (!supportsViewTransitions()) {
+    try {
+      return Promise.resolve(update());
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  const { direction, outletAttribute } = options;
+  if (outletAttribute) {
+    const prefix = outletAttribute.replace(/^data-/, '');
+    document.querySelectorAll<HTMLElement>(`[${outletAttribute}]`).forEach(outlet => {
+      if (!outlet.style.getPropertyValue('view-transition-name')) {
+        outlet.style.setProperty(
+          'view-transition-name',
+          `${prefix}-${outlet.getAttribute(outletAttribute)}`
+        );
+      }
+    });
+  }
+
+  // Browsers without transition types can match on the attribute instead
+  const root = document.documentElement;
+  root.dataset.solDirection = direction;
+
+  let result: T;
+  const start = (document as unknown as { startViewTransition: StartViewTransition }).startViewTransition;
+  const transition = start.call(document, () => {
+    result = update();
+  });
+  transition.types?.add(direction);
+  transition.finished
+    .catch(() => { /* a skipped transition still updates the DOM */ })
+    .then(() => {
+      if (root.dataset.solDirection === direction) delete root.dataset.solDirection;
+    });
+
+  return transition.updateCallbackDone.then(() => result);
+}
@@ -1,5 +1,11 @@
 /*! sol-nav v1 - CSR Navigation for Sol Framework */
 
+import { ScrollManager, disableNativeScrollRestoration } from './router/scroll';
+import { withViewTransition, type NavigationDirection } from './router/transition';
+import { morph } from './router/morph';
+import { getPageCache, responseTTL, type PageCache } from './router/page-cache';
+import { getPrefetchPolicy, type PrefetchHint } from './router/prefetch';
+
 // Use type alias instead of interface to avoid conflicts with global Window declarations
 type SolWindow = Window & {
   __LUNA_UNLOAD_ALL__?: (target: Element) => void;
@@ -7,8 +13,37 @@ type SolWindow = Window & {
   __LUNA_WC_SCAN__?: () => void;
   __LUNA_RERENDER_ALL__?: (root?: Element) => void;
   __SOL_NAVIGATE__: (url: string, replace?: boolean) => Promise<void>;
-  __SOL_PREFETCH__: (url: string) => void;
-  __SOL_CACHE__: Map<string, string>;
+  __SOL_PREFETCH__: (url: string) => Promise<void>;
+  __SOL_CACHE__: PageCache;
+};
+
+// Detail of the sol:* navigation events dispatched on document:
+// - sol:before-navigate (cancelable, except for back/forward)
+// - sol:navigate-start
+// - sol:after-swap (after each DOM update)
+// - sol:navigate-error (cancelable: skips the full page load fallback)
+// - sol:action-error (rejected submission of an action without a page;
+//   adds `form`, `errors` and `values`)
+type NavigateDetail = {
+  url: string;
+  method: 'GET' | 'POST';
+  replace: boolean;
+};
+
+// History state of entries created by sol-nav; `key` identifies the entry
+// for scroll restoration, `index` its position for transition directions
+type SolHistoryState = {
+  sol: true;
+  key: string;
+  index: number;
+};
+
+type NavigateOptions = {
+  // Back/forward navigation (URL already changed, scroll is restored)
+  popstate?: boolean;
+  direction?: NavigationDirection;
+  // Neither read nor fill the page cache (data-sol-no-cache links)
+  noCache?: boolean;
 };
 
 // Type for setHTMLUnsafe which may not exist in older browsers
@@ -24,8 +59,19 @@ const isBlockedLink = (href: string): boolean => {
 };
 
 ((d: Document, w: SolWindow) => {
-  let isNavigating = false;
-  const cache = new Map<string, string>();
+  // Controller of the navigation in flight; a new one aborts it (last wins)
+  let controller: AbortController | null = null;
+  // Shared with HybridRouter; also exposed as __SOL_CACHE__
+  const cache = getPageCache();
+  // Scroll positions keyed by history entry (the same URL can appear in
+  // several entries with different positions)
+  const scroll = new ScrollManager({ storagePrefix: 'sol:scroll:' });
+  const createKey = (): string => Math.random().toString(36).slice(2, 10);
+  const initialState = w.history.state as Partial<SolHistoryState> | null;
+  let currentKey = initialState?.key ?? createKey();
+  let currentIndex = initialState?.index ?? 0;
+  // Live region announcing page changes to assistive technology
+  let announcer: HTMLElement | null = null;
 
   // Set HTML with Declarative Shadow DOM support
   const setHTML = (target: HTMLElement, html: string): void => {
@@ -68,8 +114,75 @@ const isBlockedLink = (href: string): boolean => {
     }
   };
 
-  // Update DOM from HTML response
-  const updateDOM = (html: string, isRerender = false): void => {
+  // Key shared by head tags that replace each other (meta name/property,
+  // canonical, hreflang alternates)
+  const headKey = (el: Element): string | null => {
+    if (el.tagName === 'META') {
+      const name = el.getAttribute('name') ?? el.getAttribute('property');
+      return name ? `meta:${name.toLowerCase()}` : null;
+    }
+    if (el.tagName === 'LINK') {
+      const rel = el.getAttribute('rel')?.toLowerCase();
+      const hreflang = el.getAttribute('hreflang');
+      if (rel === 'canonical') return 'link:canonical';
+      if (rel === 'alternate' && hreflang) return `link:alternate:${hreflang}`;
+    }
+    return null;
+  };
+
+  // External scripts and stylesheets stay loaded across navigations
+  const isPersistent = (el: Element): boolean =>
+    el.matches('script[src],link[rel="stylesheet"]');
+
+  // Swap page-owned head tags (data-sol-head) for the next page's
+  const applyPageHead = (tags: Element[]): void => {
+    const keys = new Set(tags.map(headKey).filter(Boolean));
+    d.head.querySelectorAll('meta,link,script').forEach(node => {
+      const key = headKey(node);
+      if ((node.hasAttribute('data-sol-head') && !isPersistent(node)) || (key && keys.has(key))) {
+        node.remove();
+      }
+    });
+
+    for (const tag of tags) {
+      const url = tag.getAttribute('src') ?? tag.getAttribute('href');
+      if (
+        isPersistent(tag) &&
+        Array.from(d.head.querySelectorAll('script[src],link[href]')).some(
+          node => (node.getAttribute('src') ?? node.getAttribute('href')) === url
+        )
+      ) {
+        continue;
+      }
+      const clone = d.createElement(tag.tagName.toLowerCase());
+      for (const attr of Array.from(tag.attributes)) {
+        clone.setAttribute(attr.name, attr.value);
+      }
+      // JSON-LD payloads
+      clone.textContent = tag.textContent;
+      d.head.appendChild(clone);
+    }
+  };
+
+  // Replace an outlet's content, or morph it into the new content when
+  // the outlet or the response's template has data-sol-swap="morph"
+  const swapOutlet = (target: HTMLElement, source: Element): void => {
+    const mode = source.getAttribute('data-sol-swap') ?? target.dataset.solSwap;
+    if (mode === 'morph') {
+      morph(target, source instanceof HTMLTemplateElement ? source.content : source, {
+        // Only islands that are removed or changed get unloaded
+        onRemove: el => w.__LUNA_UNLOAD_ALL__?.(el)
+      });
+      return;
+    }
+    // Unload existing islands before updating DOM
+    w.__LUNA_UNLOAD_ALL__?.(target);
+    setHTML(target, source.innerHTML);
+  };
+
+  // Update DOM from HTML response, returning the first updated outlet
+  const updateDOM = (html: string, isRerender = false): HTMLElement | null => {
+    let outlet: HTMLElement | null = null;
     const parser = new DOMParser();
     const doc = parser.parseFromString(html, 'text/html');
 
@@ -82,38 +195,46 @@ const isBlockedLink = (href: string): boolean => {
         const name = tpl.dataset.solOutlet;
         const target = d.querySelector<HTMLElement>(`[data-sol-outlet="${name}"]`);
         if (target) {
-          // Unload existing islands before updating DOM
-          w.__LUNA_UNLOAD_ALL__?.(target);
-          setHTML(target, tpl.innerHTML);
+          swapOutlet(target, tpl);
+          outlet ??= target;
         }
       });
 
       // Update title
       const titleTpl = doc.querySelector<HTMLTemplateElement>('template[data-sol-title]');
       if (titleTpl) {
-        d.title = titleTpl.textContent ?? '';
+        // Template text is parsed into its content fragment
+        d.title = titleTpl.content.textContent ?? '';
       }
 
       const headAssetsTpl = doc.querySelector<HTMLTemplateElement>(
         'template[data-sol-head-assets]'
       );
-      if (headAssetsTpl) {
-        applyHeadAssets(Array.from(headAssetsTpl.content.children));
-      }
+      // Without the template the page has no head tags of its own, so the
+      // previous page's are dropped like on a full page load
+      const assets = headAssetsTpl ? Array.from(headAssetsTpl.content.children) : [];
+      applyPageHead(assets.filter(el => el.hasAttribute('data-sol-head')));
+      applyHeadAssets(assets.filter(el => !el.hasAttribute('data-sol-head')));
     } else {
-      applyHeadAssets(
-        doc.head.querySelectorAll('link[rel="stylesheet"][href],script[type="module"][src]')
-      );
-
       // Full page response - extract #app content
       const app = doc.querySelector('#app');
       const target = d.querySelector<HTMLElement>('#app');
-      if (app && target) {
-        // Unload existing islands before updating DOM
-        w.__LUNA_UNLOAD_ALL__?.(target);
-        setHTML(target, app.innerHTML);
+      if (!app || !target) {
+        // Nothing to swap (e.g. a plain-text error page): let the caller
+        // fall back to a full page load instead of leaving a stale page
+        throw new Error('sol-nav: no outlet in response');
       }
 
+      applyHeadAssets(
+        doc.head.querySelectorAll(
+          'link[rel="stylesheet"][href]:not([data-sol-head]),script[type="module"][src]:not([data-sol-head])'
+        )
+      );
+      applyPageHead(Array.from(doc.head.querySelectorAll('[data-sol-head]')));
+
+      swapOutlet(target, app);
+      outlet = target;
+
       // Update title from full page
       const title = doc.querySelector('title');
       if (title) {
@@ -131,76 +252,233 @@ const isBlockedLink = (href: string): boolean => {
     }
     // Re-scan for Web Components
     w.__LUNA_WC_SCAN__?.();
+    return outlet;
+  };
+
+  // Move focus into the new content so keyboard and screen reader users
+  // continue from there rather than from a removed element
+  const focusOutlet = (outlet: HTMLElement): void => {
+    const autofocus = outlet.querySelector<HTMLElement>('[autofocus]');
+    if (autofocus) {
+      autofocus.focus({ preventScroll: true });
+      return;
+    }
+    if (!outlet.hasAttribute('tabindex')) {
+      outlet.setAttribute('tabindex', '-1');
+    }
+    outlet.focus({ preventScroll: true });
+  };
+
+  const announce = (message: string): void => {
+    if (!message) return;
+    if (!announcer?.isConnected) {
+      announcer = d.createElement('div');
+      announcer.setAttribute('aria-live', 'polite');
+      announcer.setAttribute('aria-atomic', 'true');
+      announcer.setAttribute('data-sol-announcer', '');
+      // Visually hidden, still read by screen readers
+      announcer.style.cssText =
+        'position:absolute;width:1px;height:1px;margin:-1px;padding:0;overflow:hidden;clip:rect(0,0,0,0);white-space:nowrap;border:0';
+      d.body.appendChild(announcer);
+    }
+    announcer.textContent = message;
+  };
+
+  // Record the navigation in history; pushed entries get a new key
+  const commit = (url: string, replace: boolean): void => {
+    if (!replace) {
+      scroll.save(currentKey);
+      currentKey = createKey();
+      currentIndex++;
+    }
+    const state: SolHistoryState = { sol: true, key: currentKey, index: currentIndex };
+    if (replace) {
+      w.history.replaceState(state, '', url);
+    } else {
+      w.history.pushState(state, '', url);
+    }
+  };
+
+  // Back/forward restores the entry's position; otherwise go to the
+  // #hash target or the top
+  const settleScroll = (url: string, popstate: boolean): void => {
+    if (popstate && scroll.restore(currentKey)) return;
+    if (!scroll.scrollToHash(new URL(url, w.location.href).hash)) {
+      scroll.scrollToTop();
+    }
+  };
+
+  // Dispatch a navigation event, returning false if it was canceled
+  const emit = (
+    type: string,
+    detail: NavigateDetail & Record<string, unknown>,
+    cancelable = false
+  ): boolean => d.dispatchEvent(new CustomEvent(type, { detail, cancelable }));
+
+  // Run the before-navigate guard and take over from the navigation in flight
+  const begin = (detail: NavigateDetail, cancelable = true): AbortSignal | null => {
+    if (!emit('sol:before-navigate', detail, cancelable)) return null;
+    controller?.abort();
+    controller = new AbortController();
+    emit('sol:navigate-start', detail);
+    return controller.signal;
+  };
+
+  const end = (signal: AbortSignal): void => {
+    if (controller?.signal === signal) controller = null;
+  };
+
+  // Opted in with <meta name="sol-view-transitions" content="on">
+  const viewTransitionsEnabled = (): boolean =>
+    d.querySelector('meta[name="sol-view-transitions"]')?.getAttribute('content') === 'on';
+
+  // Update the DOM and announce the swap
+  const swap = async (
+    detail: NavigateDetail,
+    html: string,
+    isRerender: boolean,
+    direction: NavigationDirection = 'forward'
+  ): Promise<void> => {
+    const update = () => updateDOM(html, isRerender);
+    // Revalidated content updates in place without a transition
+    const outlet = !isRerender && viewTransitionsEnabled()
+      ? await withViewTransition(update, { direction, outletAttribute: 'data-sol-outlet' })
+      : update();
+    // Revalidated content replaces what the user is already reading
+    if (!isRerender) {
+      // A morph keeps focus on elements it kept inside the outlet
+      const focused = d.activeElement;
+      if (outlet && (focused === outlet || !outlet.contains(focused))) focusOutlet(outlet);
+      announce(d.title);
+    }
+    emit('sol:after-swap', { ...detail, rerender: isRerender });
   };
 
   // Navigate to URL with CSR
-  const navigate = async (url: string, replace = false): Promise<void> => {
-    if (isNavigating) return;
-    isNavigating = true;
+  const navigate = async (
+    url: string,
+    replace = false,
+    { popstate = false, direction = 'forward', noCache = false }: NavigateOptions = {}
+  ): Promise<void> => {
+    const detail: NavigateDetail = { url, method: 'GET', replace };
+    // Back/forward already changed the URL, so it cannot be canceled
+    const signal = begin(detail, !popstate);
+    if (!signal) return;
 
     try {
-      const cachedHtml = cache.get(url);
+      const cachedHtml = noCache ? undefined : cache.get(url);
 
       // Show cached content immediately if available (Stale-While-Revalidate)
       if (cachedHtml) {
-        updateDOM(cachedHtml, false);
+        await swap(detail, cachedHtml, false, direction);
         // Update history immediately for cached content
-        if (replace) {
-          w.history.replaceState({ sol: true }, '', url);
-        } else {
-          w.history.pushState({ sol: true }, '', url);
-        }
-        w.scrollTo(0, 0);
+        commit(url, replace);
+        settleScroll(url, popstate);
       }
 
       // Always fetch from server (default behavior: AlwaysFetch)
       const res = await fetch(url, {
-        headers: { 'X-Sol-Fragment': 'true' }
+        headers: { 'X-Sol-Fragment': 'true' },
+        signal
       });
       const html = await res.text();
+      if (signal.aborted) return;
 
-      // Update cache if fragment response
-      if (res.headers.get('X-Sol-Fragment-Response')) {
-        cache.set(url, html);
-        // Clear cache after 5 minutes
-        setTimeout(() => cache.delete(url), 5 * 60 * 1000);
+      // Update cache if fragment response, for as long as the server allows;
+      // error pages are swapped in but never cached
+      if (!noCache && res.ok && res.headers.get('X-Sol-Fragment-Response')) {
+        cache.set(url, html, responseTTL(res.headers));
       }
 
       // If we showed cached content, now rerender with fresh data
       if (cachedHtml) {
         // Check if content actually changed
         if (html !== cachedHtml) {
-          updateDOM(html, true);
+          await swap(detail, html, true);
         }
       } else {
         // No cache, update DOM with fetched content
-        updateDOM(html, false);
+        await swap(detail, html, false, direction);
         // Update history for non-cached navigation
-        if (replace) {
-          w.history.replaceState({ sol: true }, '', url);
-        } else {
-          w.history.pushState({ sol: true }, '', url);
-        }
-        w.scrollTo(0, 0);
+        commit(url, replace);
+        settleScroll(url, popstate);
+      }
+    } catch (error) {
+      // Superseded by a newer navigation
+      if (signal.aborted) return;
+      if (emit('sol:navigate-error', { ...detail, error }, true)) {
+        // Fallback to full page load
+        w.location.href = url;
       }
-    } catch {
-      // Fallback to full page load
-      w.location.href = url;
     } finally {
-      isNavigating = false;
+      end(signal);
+    }
+  };
+
+  // Submit a form action with CSR (progressive enhancement)
+  const submit = async (
+    form: HTMLFormElement,
+    url: string,
+    submitter: HTMLElement | null
+  ): Promise<void> => {
+    const detail: NavigateDetail = { url, method: 'POST', replace: false };
+    const signal = begin(detail);
+    if (!signal) return;
+
+    try {
+      const body = new FormData(form);
+      // Include the clicked submit button, like a native submission
+      const name = submitter?.getAttribute('name');
+      if (name) {
+        body.append(name, (submitter as HTMLButtonElement).value ?? '');
+      }
+
+      const res = await fetch(url, {
+        method: 'POST',
+        body,
+        headers: { 'X-Sol-Fragment': 'true' },
+        signal
+      });
+      // Actions without a page report field errors as JSON: surface them
+      // instead of swapping (or natively re-posting) the form
+      if (res.headers.get('Content-Type')?.includes('application/json')) {
+        const { errors, values } = await res.json();
+        if (signal.aborted) return;
+        emit('sol:action-error', { ...detail, form, errors, values });
+        return;
+      }
+
+      const html = await res.text();
+      if (signal.aborted) return;
+
+      // The action may have changed any page, so cached copies are stale
+      cache.invalidate();
+      await swap(detail, html, false);
+      // Successful actions redirect (PRG); fetch follows it, so push
+      // the final URL. Rejected actions re-render in place.
+      if (res.redirected) {
+        commit(res.url, false);
+        settleScroll(res.url, false);
+      }
+    } catch (error) {
+      if (signal.aborted) return;
+      if (emit('sol:navigate-error', { ...detail, error }, true)) {
+        // Fallback to native submission (does not fire the submit event)
+        form.submit();
+      }
+    } finally {
+      end(signal);
     }
   };
 
   // Prefetch URL
-  const prefetch = (url: string): void => {
-    if (cache.has(url)) return;
-    fetch(url, {
+  const prefetch = (url: string): Promise<void> => {
+    if (cache.has(url)) return Promise.resolve();
+    return fetch(url, {
       headers: { 'X-Sol-Fragment': 'true' }
     })
-      .then(res => res.text())
-      .then(html => {
-        cache.set(url, html);
-        setTimeout(() => cache.delete(url), 5 * 60 * 1000);
+      .then(async res => {
+        if (res.ok) cache.set(url, await res.text(), responseTTL(res.headers));
       })
       .catch(() => { /* ignore */ });
   };
@@ -225,30 +503,66 @@ const isBlockedLink = (href: string): boolean => {
 
     e.preventDefault();
     const replace = link.hasAttribute('data-sol-replace');
-    navigate(href, replace);
+    navigate(href, replace, { noCache: link.hasAttribute('data-sol-no-cache') });
   });
 
-  // Hover prefetch
-  d.addEventListener('mouseenter', (e: MouseEvent) => {
-    const target = e.target as Element | null;
-    if (!target?.closest) return;
-    const link = target.closest<HTMLAnchorElement>('[data-sol-link][data-sol-prefetch]');
-    if (link) {
-      const href = link.getAttribute('href');
-      if (href && !isBlockedLink(href) && !href.startsWith('http') && !href.startsWith('//')) {
-        prefetch(href);
-      }
-    }
-  }, { capture: true });
+  // Submit handler for sol-form elements
+  d.addEventListener('submit', (e: SubmitEvent) => {
+    const form = e.target as HTMLFormElement | null;
+    if (!form?.hasAttribute?.('data-sol-form')) return;
+    if (form.method.toLowerCase() !== 'post') return;
+
+    const action = form.getAttribute('action') || w.location.pathname + w.location.search;
+
+    // Skip blocked protocol and external actions
+    if (isBlockedLink(action)) return;
+    if (action.startsWith('http') || action.startsWith('//')) return;
+
+    e.preventDefault();
+    submit(form, action, e.submitter);
+  });
+
+  // Prefetch data-sol-link targets per their data-sol-prefetch strategy;
+  // <meta name="sol-prefetch-hint" content="link|speculation"> also warms
+  // the full document
+  getPrefetchPolicy().register({
+    selector: '[data-sol-link]:not([data-sol-no-cache])',
+    hint: (d.querySelector('meta[name="sol-prefetch-hint"]')?.getAttribute('content') ??
+      'none') as PrefetchHint,
+    prefetch
+  });
 
   // Handle browser back/forward
   w.addEventListener('popstate', (e: PopStateEvent) => {
+    const state = e.state as Partial<SolHistoryState> | null;
     // Only handle our own history entries or if no state
-    if ((e.state as { sol?: boolean } | null)?.sol || !e.state) {
-      navigate(w.location.href, true);
+    if (state?.sol || !state) {
+      // The browser has not scrolled yet: the position is the left entry's
+      scroll.save(currentKey);
+      const index = state?.index ?? 0;
+      const direction: NavigationDirection = index < currentIndex ? 'back' : 'forward';
+      currentKey = state?.key ?? createKey();
+      currentIndex = index;
+      navigate(w.location.href, true, { popstate: true, direction });
     }
   });
 
+  // sol-nav restores positions itself, including across reloads
+  disableNativeScrollRestoration();
+  w.history.replaceState(
+    { ...initialState, sol: true, key: currentKey, index: currentIndex },
+    ''
+  );
+  w.addEventListener('pagehide', () => scroll.save(currentKey));
+  if (initialState?.key) {
+    const restore = () => scroll.restore(currentKey);
+    if (d.readyState === 'loading') {
+      d.addEventListener('DOMContentLoaded', restore, { once: true });
+    } else {
+      restore();
+    }
+  }
+
   // Global API
   w.__SOL_NAVIGATE__ = navigate;
   w.__SOL_PREFETCH__ = prefetch;
@@ -23,6 +23,8 @@ export interface ForProps<T> {
 export interface ShowProps<T> {
   when: T | Accessor<T>;
   fallback?: LunaNode;
+  /** Re-create children whenever the truthy value changes identity */
+  keyed?: boolean;
   /**
    * Children receives an accessor function (SolidJS-style).
    * Use: {(item) => <p>{item()}</p>}
@@ -63,6 +65,13 @@ export interface SwitchProps {
   children: LunaNode[];
 }
 
+export interface ErrorBoundaryProps {
+  /** Rendered instead of children after an error; `reset` renders children again */
+  fallback: LunaNode | ((err: unknown, reset: () => void) => LunaNode);
+  /** Must be a function so errors thrown while rendering are caught */
+  children: () => LunaNode;
+}
+
 export interface PortalProps {
   mount?: Element | string;
   useShadow?: boolean;
@@ -70,16 +79,42 @@ export interface PortalProps {
   children: () => LunaNode;
 }
 
-export interface ResourceAccessor<T> {
+export interface ResourceAccessor<T, E = string> {
   (): T | undefined;
   loading: boolean;
-  error: string | undefined;
-  state: 'pending' | 'ready' | 'errored' | 'unresolved';
+  error: E | undefined;
+  /** "refreshing" is only used by source-driven resources (a value is kept while refetching) */
+  state: 'pending' | 'ready' | 'refreshing' | 'errored' | 'unresolved';
   latest: T | undefined;
   /** Reactive accessor for pending state - tracks dependencies unlike `loading` */
   pending: Accessor<boolean>;
 }
 
+/** Source of a resource; `false`, `null` and `undefined` hold off fetching */
+export type ResourceSource<S> = S | false | null | undefined | Accessor<S | false | null | undefined>;
+
+export interface ResourceFetcherInfo<T> {
+  /** Current value (the previous result, or `initialValue`) */
+  value: T | undefined;
+  /** Argument passed to `refetch`, or false for source changes */
+  refetching: unknown;
+  /** Aborted when a newer fetch starts or the owner is disposed */
+  signal: AbortSignal;
+}
+
+export type ResourceFetcher<S, T> = (source: S, info: ResourceFetcherInfo<T>) => T | Promise<T>;
+
+export interface ResourceOptions<T> {
+  initialValue?: T;
+}
+
+export interface ResourceActions<T> {
+  /** Overwrite the value locally (e.g. optimistic updates) */
+  mutate: Setter<T | undefined>;
+  /** Fetch again with the current source */
+  refetch: (info?: unknown) => T | Promise<T> | undefined;
+}
+
 export type SetStoreFunction<T> = (...args: any[]) => void;
 
 import {
@@ -184,12 +219,31 @@ export function createSignal<T>(initialValue: T): Signal<T> {
   return [getter, setter];
 }
 
+// Error handler of the nearest ErrorBoundary, provided through the owner tree
+const ErrorContext = createContext(null);
+
+/**
+ * Route errors thrown by a computation to the ErrorBoundary it was created under
+ */
+function catchErrors<T>(fn: () => T): () => T {
+  const handleError = useContext(ErrorContext);
+  if (!handleError) return fn;
+  return () => {
+    try {
+      return fn();
+    } catch (error) {
+      handleError(error);
+      return undefined;
+    }
+  };
+}
+
 /**
  * Creates a reactive effect (SolidJS-style)
  * Deferred execution via microtask - runs after rendering completes
  */
 export function createEffect(fn: () => void): () => void {
-  return _effect(fn);
+  return _effect(catchErrors(fn));
 }
 
 /**
@@ -197,14 +251,14 @@ export function createEffect(fn: () => void): () => void {
  * Immediate/synchronous execution - runs during rendering
  */
 export function createRenderEffect(fn: () => void): () => void {
-  return _renderEffect(fn);
+  return _renderEffect(catchErrors(fn));
 }
 
 /**
  * Creates a memoized computed value (SolidJS-style)
  */
 export function createMemo<T>(fn: () => T): Accessor<T> {
-  return _createMemo(fn);
+  return _createMemo(catchErrors(fn));
 }
 
 /**
@@ -348,12 +402,52 @@ export function splitProps(props, ...keys) {
 
 /**
  * Creates a resource for async data (SolidJS-style)
+ *
+ * - `createResource(fetcher)`: callback fetcher `(resolve, reject)`, errors are
+ *   strings; a fetcher returning a Promise settles the resource with it
+ * - `createResource(source, fetcher, options?)`: Promise fetcher that runs again
+ *   whenever `source` changes; stale requests are aborted and errors are `Error`s
+ * - `createResource(fetcher, options)`: Promise fetcher without a source
  */
-export function createResource<T>(fetcher: (resolve: (v: T) => void, reject: (e: string) => void) => void): [ResourceAccessor<T>, { refetch: () => void }] {
-  const resource = _createResource(fetcher);
+export function createResource<T>(
+  fetcher: () => PromiseLike<T>
+): [ResourceAccessor<T>, { refetch: () => void }];
+export function createResource<T>(
+  fetcher: (resolve: (v: T) => void, reject: (e: string) => void) => void
+): [ResourceAccessor<T>, { refetch: () => void }];
+export function createResource<T>(
+  fetcher: ResourceFetcher<true, T>,
+  options: ResourceOptions<T>
+): [ResourceAccessor<T, Error>, ResourceActions<T>];
+export function createResource<T, S>(
+  source: ResourceSource<S>,
+  fetcher: ResourceFetcher<S, T>,
+  options?: ResourceOptions<T>
+): [ResourceAccessor<T, Error>, ResourceActions<T>];
+export function createResource(...args) {
+  if (args.length === 1) {
+    return createCallbackResource(args[0]);
+  }
+  if (typeof args[1] !== "function") {
+    return createSourceResource(true, args[0], args[1] ?? {});
+  }
+  return createSourceResource(args[0], args[1], args[2] ?? {});
+}
+
+function createCallbackResource<T>(fetcher) {
+  const resource = _createResource((resolve, reject) => {
+    const result = fetcher(resolve, reject);
+    if (result && typeof result.then === "function") {
+      result.then(resolve, (e) => reject(e instanceof Error ? e.message : String(e)));
+    }
+  });
+  const suspense = createSuspenseTracker(resourcePendingGetter(resource));
 
   // Use resourceGet for tracking dependencies, stateValue for actual value
-  const accessor = () => stateValue(resourceGet(resource));
+  const accessor = () => {
+    suspense.read();
+    return stateValue(resourceGet(resource));
+  };
   Object.defineProperties(accessor, {
     loading: { get: () => resourceIsPending(resource) },
     error: { get: () => resourceError(resource) },
@@ -369,7 +463,124 @@ export function createResource<T>(fetcher: (resolve: (v: T) => void, reject: (e:
     pending: { value: resourcePendingGetter(resource) },
   });
 
-  return [accessor, { refetch: () => resourceRefetch(resource) }];
+  const refetch = () => {
+    suspense.started();
+    resourceRefetch(resource);
+  };
+
+  return [accessor, { refetch }];
+}
+
+const toError = (e: unknown): Error =>
+  e instanceof Error ? e : new Error(typeof e === "string" ? e : String(e));
+
+function createSourceResource<T, S>(
+  source: ResourceSource<S>,
+  fetcher: ResourceFetcher<S, T>,
+  options: ResourceOptions<T>
+) {
+  const [value, setValue] = createSignal<T | undefined>(options.initialValue);
+  const [error, setError] = createSignal<Error | undefined>(undefined);
+  const [state, setState] = createSignal<ResourceAccessor<T>["state"]>(
+    options.initialValue !== undefined ? "ready" : "unresolved"
+  );
+  let controller: AbortController | null = null;
+  let current: S | false | null | undefined;
+  const suspense = createSuspenseTracker(
+    () => state() === "pending" || state() === "refreshing"
+  );
+
+  // Abort the request in flight without a new one; the previous value stays
+  const cancel = () => {
+    if (!controller) return;
+    controller.abort();
+    controller = null;
+    setState(runUntracked(value) !== undefined ? "ready" : "unresolved");
+  };
+
+  const settle = (next: T | undefined, err: Error | undefined) => {
+    batch(() => {
+      if (!err) setValue(() => next);
+      setError(err);
+      setState(err ? "errored" : "ready");
+    });
+  };
+
+  const load = (refetching: unknown) => {
+    const src = current;
+    if (src === false || src === null || src === undefined) {
+      cancel();
+      return undefined;
+    }
+
+    // Only the latest request may settle the resource
+    controller?.abort();
+    controller = null;
+
+    const ctrl = new AbortController();
+    let result;
+    try {
+      result = fetcher(src, { value: runUntracked(value), refetching, signal: ctrl.signal });
+    } catch (e) {
+      settle(undefined, toError(e));
+      return undefined;
+    }
+    if (!result || typeof result.then !== "function") {
+      settle(result, undefined);
+      return result;
+    }
+
+    controller = ctrl;
+    setState(runUntracked(value) !== undefined ? "refreshing" : "pending");
+    suspense.started();
+    result.then(
+      (v) => {
+        if (controller !== ctrl) return;
+        controller = null;
+        settle(v, undefined);
+      },
+      (e) => {
+        if (controller !== ctrl) return;
+        controller = null;
+        settle(undefined, toError(e));
+      }
+    );
+    return result;
+  };
+
+  // Track the source only; the fetcher runs untracked
+  createRenderEffect(() => {
+    const src = typeof source === "function" ? (source as Accessor<S>)() : source;
+    runUntracked(() => {
+      current = src;
+      load(false);
+    });
+  });
+  if (hasOwner()) {
+    onCleanup(cancel);
+  }
+
+  const accessor = () => {
+    suspense.read();
+    return value();
+  };
+  Object.defineProperties(accessor, {
+    loading: { get: () => state() === "pending" || state() === "refreshing" },
+    error: { get: () => error() },
+    state: { get: () => state() },
+    latest: { get: () => value() },
+    pending: { value: suspense.pending },
+  });
+
+  const mutate: Setter<T | undefined> = (v) => {
+    batch(() => {
+      setValue(v);
+      setError(undefined);
+      setState("ready");
+    });
+  };
+
+  return [accessor, { mutate, refetch: (info = true) => runUntracked(() => load(info)) }];
 }
 
 /**
@@ -380,9 +591,13 @@ export function createDeferred<T>(): [ResourceAccessor<T>, (value: T) => void, (
   const resource = result._0;
   const resolve = result._1;
   const reject = result._2;
+  const suspense = createSuspenseTracker(resourcePendingGetter(resource));
 
   // Use resourceGet for tracking dependencies, stateValue for actual value
-  const accessor = () => stateValue(resourceGet(resource));
+  const accessor = () => {
+    suspense.read();
+    return stateValue(resourceGet(resource));
+  };
   Object.defineProperties(accessor, {
     loading: { get: () => resourceIsPending(resource) },
     error: { get: () => resourceError(resource) },
@@ -392,6 +607,118 @@ export function createDeferred<T>(): [ResourceAccessor<T>, (value: T) => void, (
   return [accessor, resolve, reject];
 }
 
+// ============================================================================
+// Suspense and transitions
+// ============================================================================
+
+interface SuspenseTracker {
+  /** False once the resource's owner is disposed (it never settles then) */
+  pending: Accessor<boolean>;
+  /** True while the current load belongs to a transition (stale UI is kept) */
+  held: Accessor<boolean>;
+  setHeld: Setter<boolean>;
+}
+
+interface SuspenseBoundary {
+  register(tracker: SuspenseTracker): void;
+  unregister(tracker: SuspenseTracker): void;
+}
+
+// Suspense boundary of the current owner, provided through the owner tree
+const SuspenseContext = createContext(null);
+
+// Resources that start loading while a transition runs join it
+let runningTransition: Set<SuspenseTracker> | null = null;
+
+const [transitionCount, setTransitionCount] = createSignal(0);
+
+/**
+ * Connect a resource to Suspense boundaries and transitions
+ */
+function createSuspenseTracker(pending: Accessor<boolean>) {
+  const [held, setHeld] = createSignal(false);
+  const [disposed, setDisposed] = createSignal(false);
+  const tracker: SuspenseTracker = {
+    pending: () => !disposed() && pending(),
+    held,
+    setHeld,
+  };
+  const boundaries = new Set<SuspenseBoundary>();
+
+  if (hasOwner()) {
+    // A resource disposed while loading must not keep boundaries suspended
+    onCleanup(() => {
+      setDisposed(true);
+      for (const boundary of boundaries) boundary.unregister(tracker);
+      boundaries.clear();
+    });
+  }
+
+  return {
+    pending,
+    /** Register with the nearest Suspense boundary (call on every read) */
+    read() {
+      const boundary = useContext(SuspenseContext);
+      if (!boundary || runUntracked(disposed)) return;
+      boundaries.add(boundary);
+      boundary.register(tracker);
+    },
+    /** Call when a load starts */
+    started() {
+      if (!runningTransition) return;
+      runningTransition.add(tracker);
+      setHeld(true);
+    },
+  };
+}
+
+/**
+ * Runs updates as a transition (SolidJS-style)
+ *
+ * Resources that start loading because of `fn` keep showing their current
+ * content in Suspense boundaries that already revealed it, instead of
+ * falling back. Resolves once those resources have settled.
+ */
+export function startTransition(fn: () => void): Promise<void> {
+  const transition = new Set<SuspenseTracker>();
+  const previous = runningTransition;
+  runningTransition = transition;
+  try {
+    // Source effects run when the batch ends, still inside the transition
+    batch(fn);
+  } finally {
+    runningTransition = previous;
+  }
+  if (transition.size === 0) return Promise.resolve();
+
+  setTransitionCount((c) => c + 1);
+  return new Promise((resolve) => {
+    createRoot((dispose) => {
+      let done = false;
+      createRenderEffect(() => {
+        if (done || Array.from(transition).some((t) => t.pending())) return;
+        done = true;
+        runUntracked(() => {
+          batch(() => {
+            for (const t of transition) t.setHeld(false);
+            setTransitionCount((c) => c - 1);
+          });
+        });
+        // Not disposed from inside its own run
+        queueMicrotask(dispose);
+        resolve();
+      });
+    });
+  });
+}
+
+/**
+ * Returns whether any transition is pending and `startTransition` (SolidJS-style)
+ */
+export function useTransition(): [Accessor<boolean>, (fn: () => void) => Promise<void>] {
+  return [() => transitionCount() > 0, startTransition];
+}
+
 /**
  * Debounces a signal (returns SolidJS-style signal)
  */
@@ -402,6 +729,169 @@ export function debounced<T>(signal: Signal<T>, delayMs: number): Signal<T> {
   return [() => _get(debouncedInner), (v) => _set(innerSignal, v)];
 }
 
+// ============================================================================
+// Array mapping (SolidJS-style)
+// ============================================================================
+
+export interface MapArrayOptions<U> {
+  /** Mapped (in its own owner) while the list is empty */
+  fallback?: () => U;
+}
+
+interface MappedEntry<U> {
+  value: U;
+  dispose: () => void;
+}
+
+/**
+ * Run `fn` in a new owner under `owner`, so context flows into it and it
+ * can be disposed on its own
+ */
+function createChildRoot<U>(owner, fn: () => U): MappedEntry<U> {
+  const create = () =>
+    createRoot((dispose) => ({ value: runUntracked(fn), dispose }));
+  return owner ? runWithOwner(owner, create) : create();
+}
+
+/**
+ * Create an owner per entry (and one for the fallback) that is disposed
+ * when the entry goes away or the calling owner is disposed
+ */
+function createEntryOwners<U>(options: MapArrayOptions<U>) {
+  const owner = getOwner();
+  let fallback: MappedEntry<U> | null = null;
+  const live = new Set<MappedEntry<U>>();
+
+  const create = (fn: () => U) => {
+    const entry = createChildRoot(owner, fn);
+    live.add(entry);
+    return entry;
+  };
+  const dispose = (entry: MappedEntry<U>) => {
+    live.delete(entry);
+    entry.dispose();
+  };
+
+  if (hasOwner()) {
+    onCleanup(() => {
+      live.forEach((entry) => entry.dispose());
+      live.clear();
+      fallback?.dispose();
+      fallback = null;
+    });
+  }
+
+  return {
+    create,
+    dispose,
+    /** Mapped fallback for an empty list, disposed once items come back */
+    fallback(empty: boolean): U[] {
+      if (!empty || !options.fallback) {
+        fallback?.dispose();
+        fallback = null;
+        return [];
+      }
+      fallback ??= createChildRoot(owner, options.fallback);
+      return [fallback.value];
+    },
+  };
+}
+
+/**
+ * Maps a reactive list by item reference (SolidJS-style `mapArray`)
+ *
+ * Each item is mapped once, in its own owner, and keeps its result while it
+ * stays in the list; `index` follows its position. Removed items are
+ * disposed, which runs their `onCleanup`s. Read the result inside a memo or
+ * effect: `createMemo(mapArray(rows, (row, i) => ...))`. Maps to values,
+ * not DOM; use `For` to render a list.
+ */
+export function mapArray<T, U>(
+  list: Accessor<readonly T[] | null | undefined | false>,
+  mapFn: (item: T, index: Accessor<number>) => U,
+  options: MapArrayOptions<U> = {}
+): Accessor<U[]> {
+  const owners = createEntryOwners<U>(options);
+  let items: T[] = [];
+  let entries: { entry: MappedEntry<U>; setIndex: Setter<number> }[] = [];
+
+  return () => {
+    const nextItems = [...(list() || [])];
+    return runUntracked(() => {
+      // Old positions per item, in order (an item may appear more than once)
+      const positions = new Map<T, number[]>();
+      items.forEach((item, i) => {
+        const seen = positions.get(item);
+        if (seen) seen.push(i);
+        else positions.set(item, [i]);
+      });
+
+      const reused = new Set<number>();
+      const nextEntries = nextItems.map((item, i) => {
+        const previous = positions.get(item)?.shift();
+        if (previous !== undefined) {
+          reused.add(previous);
+          const kept = entries[previous];
+          kept.setIndex(i);
+          return kept;
+        }
+        const [index, setIndex] = createSignal(i);
+        return { entry: owners.create(() => mapFn(item, index)), setIndex };
+      });
+
+      entries.forEach(({ entry }, i) => {
+        if (!reused.has(i)) owners.dispose(entry);
+      });
+      items = nextItems;
+      entries = nextEntries;
+
+      const fallback = owners.fallback(items.length === 0);
+      return fallback.length > 0 ? fallback : entries.map(({ entry }) => entry.value);
+    });
+  };
+}
+
+/**
+ * Maps a reactive list by index (SolidJS-style `indexArray`)
+ *
+ * Each position is mapped once, in its own owner, and receives its item as
+ * an accessor that updates in place. Positions past the end of a shorter
+ * list are disposed. Read the result inside a memo or effect. Maps to
+ * values, not DOM; use `Index` to render a list.
+ */
+export function indexArray<T, U>(
+  list: Accessor<readonly T[] | null | undefined | false>,
+  mapFn: (item: Accessor<T>, index: number) => U,
+  options: MapArrayOptions<U> = {}
+): Accessor<U[]> {
+  const owners = createEntryOwners<U>(options);
+  let entries: { entry: MappedEntry<U>; setItem: Setter<T> }[] = [];
+
+  return () => {
+    const nextItems = [...(list() || [])];
+    return runUntracked(() => {
+      batch(() => {
+        nextItems.forEach((item, i) => {
+          // Wrapped so function items are not taken as updaters
+          if (i < entries.length) entries[i].setItem(() => item);
+        });
+      });
+
+      for (const { entry } of entries.slice(nextItems.length)) {
+        owners.dispose(entry);
+      }
+      entries = entries.slice(0, nextItems.length);
+      for (let i = entries.length; i < nextItems.length; i++) {
+        const [item, setItem] = createSignal(nextItems[i]);
+        entries.push({ entry: owners.create(() => mapFn(item, i)), setItem });
+      }
+
+      const fallback = owners.fallback(entries.length === 0);
+      return fallback.length > 0 ? fallback : entries.map(({ entry }) => entry.value);
+    });
+  };
+}
+
 // ============================================================================
 // SolidJS-compatible Component API
 // ============================================================================
@@ -451,10 +941,22 @@ export function For<T>(props: ForProps<T>): any {
   // each should be a getter function
   const getter = typeof each === "function" ? each : () => each;
 
-  return forEach(getter, (item, index) => {
+  const list = forEach(getter, (item, index) => {
     // Wrap index in a getter for SolidJS compatibility
     return children(item, () => index);
   });
+
+  return withListFallback(list, () => (getter() ?? []).length === 0, fallback);
+}
+
+/**
+ * Append a fallback that shows (and is disposed) as the list empties and refills
+ */
+function withListFallback(list: any, isEmpty: Accessor<boolean>, fallback?: LunaNode): any {
+  if (fallback == null) {
+    return list;
+  }
+  return fragment([list, show(isEmpty, () => resolveChild(fallback))]);
 }
 
 /**
@@ -464,19 +966,86 @@ export function For<T>(props: ForProps<T>): any {
  * This matches SolidJS behavior where you use: {(item) => <p>{item()}</p>}
  */
 export function Show<T>(props: ShowProps<T>): any {
-  const { when, children } = props;
-  // TODO: fallback support requires MoonBit-side changes
+  const { when, fallback, keyed = false, children } = props;
 
   // Convert when to a getter if it's not already
   const condition = typeof when === "function" ? when : () => when;
 
-  // Create a stable accessor for the condition value
-  // This matches SolidJS behavior where children receives an accessor
-  const valueAccessor = () => condition() as NonNullable<T>;
+  let content;
+  if (keyed) {
+    // For tracks items by reference, so a new value gets fresh children
+    // (and the previous children's owner is disposed)
+    content = forEach(
+      () => {
+        const value = condition();
+        return value ? [value] : [];
+      },
+      (value) => resolveChild(children, () => value as NonNullable<T>)
+    );
+  } else {
+    // Create a stable accessor for the condition value
+    // This matches SolidJS behavior where children receives an accessor
+    const valueAccessor = () => condition() as NonNullable<T>;
+
+    content = show(
+      () => Boolean(condition()),
+      () => resolveChild(children, valueAccessor)
+    );
+  }
+
+  if (fallback == null) {
+    return content;
+  }
+
+  return fragment([
+    content,
+    show(
+      () => !condition(),
+      () => resolveChild(fallback)
+    ),
+  ]);
+}
+
+/**
+ * ErrorBoundary component (SolidJS-style)
+ *
+ * Catches errors thrown while rendering its children and in effects and
+ * memos created under it, and renders `fallback(err, reset)` instead.
+ * Calling `reset` disposes the fallback and renders the children again.
+ * Errors thrown by the fallback go to the next boundary up.
+ */
+export function ErrorBoundary(props: ErrorBoundaryProps): any {
+  const { fallback, children } = props;
+
+  // Each attempt is a new object, so For re-renders on every transition
+  const [view, setView] = createSignal<{ failed: boolean; error?: unknown }>({ failed: false });
+  const reset = () => setView({ failed: false });
+
+  // Errors thrown while children render synchronously are caught below;
+  // later ones (effects, memos) switch the view to the fallback
+  let rendering = false;
+  const handleError = (error: unknown) => {
+    if (rendering) throw error;
+    setView({ failed: true, error });
+  };
+
+  const renderFallback = (error: unknown) =>
+    typeof fallback === "function" ? resolveChild(fallback, error, reset) : resolveChild(fallback);
+
+  const renderChildren = () => {
+    rendering = true;
+    try {
+      return provide(ErrorContext, handleError, () => resolveChild(children));
+    } catch (error) {
+      return renderFallback(error);
+    } finally {
+      rendering = false;
+    }
+  };
 
-  return show(
-    () => Boolean(condition()),
-    () => resolveChild(children, valueAccessor)
+  return forEach(
+    () => [view()],
+    (current) => (current.failed ? renderFallback(current.error) : renderChildren())
   );
 }
 
@@ -503,6 +1072,80 @@ export function Loading(props: LoadingProps): any {
   return _loading(condition, fallbackFn, children);
 }
 
+/**
+ * Suspense component (SolidJS-style)
+ *
+ * Shows fallback while any resource read inside its children is pending.
+ * Children are rendered once, up front (kept out of the document while
+ * suspended), so their reads register with the boundary and their state
+ * survives. Loads started by `startTransition` keep already revealed
+ * content visible.
+ *
+ * The boundary sits between `<!--suspense:ID-->` and `<!--/suspense:ID-->`
+ * comments, so it adds no element (valid inside tables, lists and selects).
+ * Servers emit the same anchors around a fallback and stream the content
+ * into them later (see `defer(..., { boundary })` in Sol).
+ */
+export interface SuspenseProps {
+  fallback?: LunaNode | (() => LunaNode);
+  /** Must be a function so resource reads happen inside the boundary */
+  children: () => LunaNode;
+  /** Boundary id in the anchors, matching the server's (generated by default) */
+  id?: string;
+}
+
+let nextSuspenseId = 0;
+
+export function Suspense(props: SuspenseProps): any {
+  const { fallback, children, id = `luna${nextSuspenseId++}` } = props;
+
+  const [tracked, setTracked] = createSignal<SuspenseTracker[]>([]);
+  const boundary: SuspenseBoundary = {
+    register(tracker) {
+      if (!runUntracked(tracked).includes(tracker)) {
+        setTracked((list) => [...list, tracker]);
+      }
+    },
+    unregister(tracker) {
+      if (runUntracked(tracked).includes(tracker)) {
+        setTracked((list) => list.filter((t) => t !== tracker));
+      }
+    },
+  };
+
+  const content = provide(SuspenseContext, boundary, () => resolveChild(children));
+
+  let revealed = false;
+  const suspended = createMemo(() => {
+    const waiting = tracked().some((t) => t.pending() && !(revealed && t.held()));
+    if (!waiting) revealed = true;
+    return waiting;
+  });
+
+  const fallbackFn = typeof fallback === "function"
+    ? fallback as () => LunaNode
+    : () => fallback ?? text("");
+
+  // Content nodes are created once and parked in a fragment while suspended
+  const parked = document.createDocumentFragment();
+  mount(parked, content);
+  const nodes = Array.from(parked.childNodes);
+
+  const root = document.createDocumentFragment();
+  const end = document.createComment(`/suspense:${id}`);
+  root.append(document.createComment(`suspense:${id}`));
+  mount(root, show(suspended, fallbackFn));
+  root.append(end);
+
+  createRenderEffect(() => {
+    if (suspended()) parked.append(...nodes);
+    else end.before(...nodes);
+  });
+
+  // Raw DOM as a MoonBit DomNode (DomNode.Raw is $tag 2)
+  return { $tag: 2, _0: root };
+}
+
 /**
  * Index component for index-based list rendering (SolidJS-style)
  */
@@ -514,19 +1157,25 @@ export function Index<T>(props: IndexProps<T>): any {
   }
 
   const getter = typeof each === "function" ? each : () => each;
-  const items = getter();
-
-  if (items.length === 0 && fallback) {
-    return fallback;
-  }
+  const length = () => (getter() ?? []).length;
+
+  // forEach tracks by reference, so render one stable slot per index:
+  // a slot keeps its DOM while the item at its index changes, and only
+  // slots past the end are removed when the list shrinks
+  const slots: object[] = [];
+  const slotsFor = () => {
+    const n = length();
+    while (slots.length < n) slots.push({});
+    return slots.slice(0, n);
+  };
 
-  // Use index_each from MoonBit if available, otherwise simulate with forEach
-  // For now, we'll use forEach with index-based tracking
-  return forEach(getter, (_item, index) => {
+  const list = forEach(slotsFor, (_slot, index) => {
     // Provide item as a getter for reactivity at that index
     const itemGetter = () => getter()[index];
     return children(itemGetter, index);
   });
+
+  return withListFallback(list, () => length() === 0, fallback);
 }
 
 /**
@@ -732,6 +1381,41 @@ export function createStore<T extends object>(initialValue: T): [T, SetStoreFunc
     }
   }
 
+  // Notify signals touched by changes made by a diffing updater (paths
+  // relative to `path`). Values along a changed path are new objects, and
+  // a changed path's subtree was replaced; everything else kept its value.
+  function notifyChanges(path, changes) {
+    if (changes.length === 0) return;
+
+    const exact = new Set();
+    const subtrees = new Set();
+    for (const change of changes) {
+      const full = [...path, ...change].map(String);
+      for (let i = path.length; i < full.length; i++) {
+        exact.add(full.slice(0, i).join("."));
+      }
+      subtrees.add(full.join("."));
+    }
+
+    const inSubtree = (key) => {
+      for (let k = key; ; k = k.slice(0, k.lastIndexOf("."))) {
+        if (subtrees.has(k)) return true;
+        if (!k.includes(".")) return false;
+      }
+    };
+
+    batchStart();
+    try {
+      for (const [key, signal] of signals.entries()) {
+        if (exact.has(key) || inSubtree(key)) {
+          _set(signal, getValueAtPath(store, key.split(".")));
+        }
+      }
+    } finally {
+      batchEnd();
+    }
+  }
+
   // Create a proxy for reactive access
   function createProxy(target, path = []) {
     if (target === null || typeof target !== "object") {
@@ -798,6 +1482,23 @@ export function createStore<T extends object>(initialValue: T): [T, SetStoreFunc
     // Get current value at path
     const currentValue = getValueAtPath(store, path);
 
+    // reconcile/produce report what they changed, so only those paths are notified
+    if (typeof valueOrUpdater === "function" && valueOrUpdater[$DIFF]) {
+      const [next, changes] = valueOrUpdater[$DIFF](currentValue);
+      if (next === currentValue) return;
+      if (path.length === 0) {
+        // Keep the root object (the store proxy wraps it)
+        for (const key of Object.keys(store)) {
+          if (!(key in next)) delete store[key];
+        }
+        Object.assign(store, next);
+      } else {
+        setValueAtPath(store, path, next);
+      }
+      notifyChanges(path, changes);
+      return;
+    }
+
     // Determine new value
     let newValue;
     if (typeof valueOrUpdater === "function") {
@@ -831,28 +1532,182 @@ export function createStore<T extends object>(initialValue: T): [T, SetStoreFunc
   return [proxy, setState];
 }
 
+// Updaters that know which paths they changed carry a diff function:
+// (state) => [nextState, changedPaths]. Calling them directly still
+// returns the next state.
+const $DIFF = Symbol("luna-store-diff");
+
+function withDiff(diff) {
+  const updater = (state) => diff(state)[0];
+  updater[$DIFF] = diff;
+  return updater;
+}
+
+const isWrappable = (value) =>
+  value !== null &&
+  typeof value === "object" &&
+  (Array.isArray(value) || Object.getPrototypeOf(value) === Object.prototype);
+
 /**
  * Produce helper for immer-style mutations (SolidJS-style)
+ *
+ * Mutations go to a Proxy draft: objects along written paths are copied,
+ * everything else is shared with the previous state, and only written
+ * paths are notified.
+ *
  * @template T
  * @param {(draft: T) => void} fn - Mutation function
  * @returns {(state: T) => T} - Function that applies mutations to a copy
  */
 export function produce(fn) {
-  return (state) => {
-    const draft = structuredClone(state);
-    fn(draft);
-    return draft;
-  };
+  return withDiff((state) => {
+    if (!isWrappable(state)) return [state, []];
+
+    const changes = [];
+    const drafts = new WeakMap();
+
+    // Copy-on-write node: `copy` replaces `base` in its parent on first write
+    const createDraft = (base, parent, key, path) => {
+      const node = { base, copy: null, children: new Map() };
+      const current = () => node.copy ?? node.base;
+      const ensureCopy = () => {
+        if (node.copy) return node.copy;
+        node.copy = Array.isArray(base) ? [...base] : { ...base };
+        if (parent) parent.ensureCopy()[key] = node.copy;
+        return node.copy;
+      };
+      node.ensureCopy = ensureCopy;
+      node.current = current;
+
+      const proxy = new Proxy(base, {
+        get(_, prop) {
+          const value = current()[prop];
+          if (typeof prop === "symbol" || !isWrappable(value)) return value;
+          let child = node.children.get(prop);
+          // Items move (e.g. after splice), so a draft is only reused for its own value
+          if (!child || child.current() !== value) {
+            child = createDraft(value, node, prop, [...path, prop]);
+            node.children.set(prop, child);
+          }
+          return child.proxy;
+        },
+        set(_, prop, value) {
+          const raw = drafts.get(value)?.current() ?? value;
+          if (Object.is(current()[prop], raw) && prop in current()) return true;
+          const target = ensureCopy();
+          const length = target.length;
+          target[prop] = raw;
+          node.children.delete(prop);
+          changes.push([...path, prop]);
+          // Writing past the end of an array grows it without a length write
+          if (Array.isArray(target) && prop !== "length" && target.length !== length) {
+            changes.push([...path, "length"]);
+          }
+          return true;
+        },
+        deleteProperty(_, prop) {
+          if (!(prop in current())) return true;
+          delete ensureCopy()[prop];
+          node.children.delete(prop);
+          changes.push([...path, prop]);
+          return true;
+        },
+        has: (_, prop) => prop in current(),
+        ownKeys: () => Reflect.ownKeys(current()),
+        getOwnPropertyDescriptor(_, prop) {
+          const desc = Reflect.getOwnPropertyDescriptor(current(), prop);
+          // The proxy target is the base; an array's length stays non-configurable
+          const fixed = Array.isArray(base) && prop === "length";
+          return desc && { ...desc, configurable: !fixed };
+        },
+      });
+      node.proxy = proxy;
+      drafts.set(proxy, node);
+      return node;
+    };
+
+    const root = createDraft(state, null, null, []);
+    fn(root.proxy);
+    return [root.current(), changes];
+  });
 }
 
 /**
  * Reconcile helper for efficient array/object updates (SolidJS-style)
+ *
+ * Diffs the new value against the current state: array items are matched
+ * by `key` (default "id"), unchanged values keep their identity and only
+ * paths whose value changed are notified. With `merge`, items without a
+ * keyed match are diffed against the item at the same index instead of
+ * being replaced.
+ *
  * @template T
  * @param {T} value - New value to reconcile
- * @returns {(state: T) => T} - Function that returns the new value
+ * @param {{ key?: string | null, merge?: boolean }} [options]
+ * @returns {(state: T) => T} - Function that returns the reconciled value
  */
-export function reconcile(value) {
-  return () => value;
+export function reconcile(value, options = {}) {
+  const { key = "id", merge = false } = options;
+
+  const diff = (prev, next, path, changes) => {
+    if (prev === next) return prev;
+    if (!isWrappable(prev) || !isWrappable(next) || Array.isArray(prev) !== Array.isArray(next)) {
+      changes.push(path);
+      return next;
+    }
+
+    if (Array.isArray(next)) {
+      const keyOf = (item) => (key != null && isWrappable(item) ? item[key] : undefined);
+      const byKey = new Map();
+      for (const item of prev) {
+        const k = keyOf(item);
+        if (k !== undefined) byKey.set(k, item);
+      }
+
+      let changed = prev.length !== next.length;
+      const result = next.map((item, i) => {
+        const k = keyOf(item);
+        let base = k !== undefined ? byKey.get(k) : undefined;
+        if (base === undefined && (k === undefined || merge) && i < prev.length) {
+          base = prev[i];
+        }
+        if (base === undefined) {
+          changed = true;
+          changes.push([...path, i]);
+          return item;
+        }
+        // A moved item changes every path below its new index
+        const itemChanges = base === prev[i] ? changes : [];
+        const reconciled = diff(base, item, [...path, i], itemChanges);
+        if (reconciled !== prev[i]) {
+          changed = true;
+          if (itemChanges !== changes) changes.push([...path, i]);
+        }
+        return reconciled;
+      });
+      if (prev.length !== next.length) changes.push([...path, "length"]);
+      return changed ? result : prev;
+    }
+
+    let changed = false;
+    const result = {};
+    for (const k of Object.keys(next)) {
+      result[k] = diff(prev[k], next[k], [...path, k], changes);
+      if (result[k] !== prev[k] || !(k in prev)) changed = true;
+    }
+    for (const k of Object.keys(prev)) {
+      if (!(k in next)) {
+        changed = true;
+        changes.push([...path, k]);
+      }
+    }
+    return changed ? result : prev;
+  };
+
+  return withDiff((state) => {
+    const changes = [];
+    return [diff(state, value, [], changes), changes];
+  });
 }
 
 // Re-export unchanged APIs
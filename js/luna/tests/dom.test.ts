@@ -16,8 +16,10 @@ import {
   forEach,
   For,
   Show,
+  ErrorBoundary,
   createSignal,
   createRenderEffect,
+  onCleanup,
 } from "../src/index";
 import { jsx as jsxRuntime } from "../src/jsx-runtime";
 
@@ -436,6 +438,96 @@ describe("DOM API", () => {
       setValue("hello");
       expect(container.querySelector("span")?.textContent).toBe("hello");
     });
+
+    test("Show renders fallback while condition is falsy", () => {
+      const [visible, setVisible] = createSignal(false);
+
+      const node = Show({
+        when: visible,
+        fallback: createElement("p", [], [text("fallback")]),
+        children: () => createElement("span", [], [text("content")]),
+      });
+
+      mount(container, node);
+      expect(container.textContent).toBe("fallback");
+
+      setVisible(true);
+      expect(container.textContent).toBe("content");
+
+      setVisible(false);
+      expect(container.textContent).toBe("fallback");
+    });
+
+    test("keyed Show re-creates children when the value changes", () => {
+      const [user, setUser] = createSignal<{ name: string } | null>({ name: "a" });
+      const disposed: string[] = [];
+      let renders = 0;
+
+      const node = Show({
+        when: user,
+        keyed: true,
+        children: (u: () => { name: string }) => {
+          renders++;
+          const name = u().name;
+          onCleanup(() => disposed.push(name));
+          return createElement("span", [], [text(name)]);
+        },
+      });
+
+      mount(container, node);
+      expect(container.textContent).toBe("a");
+
+      setUser({ name: "b" });
+      expect(container.textContent).toBe("b");
+      expect(renders).toBe(2);
+      expect(disposed).toEqual(["a"]);
+
+      setUser(null);
+      expect(container.querySelector("span")).toBeNull();
+      expect(disposed).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("ErrorBoundary component", () => {
+    test("renders fallback when children throw while rendering", () => {
+      const node = ErrorBoundary({
+        fallback: (err: unknown) => text(`error: ${(err as Error).message}`),
+        children: () => {
+          throw new Error("boom");
+        },
+      });
+
+      mount(container, node);
+      expect(container.textContent).toBe("error: boom");
+    });
+
+    test("catches errors thrown in effects and resets", () => {
+      const [count, setCount] = createSignal(0);
+      let reset = () => {};
+
+      const node = ErrorBoundary({
+        fallback: (err: unknown, r: () => void) => {
+          reset = r;
+          return text(`error: ${(err as Error).message}`);
+        },
+        children: () => {
+          createRenderEffect(() => {
+            if (count() === 1) throw new Error("effect failed");
+          });
+          return createElement("span", [], [text("ok")]);
+        },
+      });
+
+      mount(container, node);
+      expect(container.textContent).toBe("ok");
+
+      setCount(1);
+      expect(container.textContent).toBe("error: effect failed");
+
+      setCount(2);
+      reset();
+      expect(container.textContent).toBe("ok");
+    });
   });
 
   describe("ref callback (JSX style)", () => {
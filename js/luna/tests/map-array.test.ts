@@ -0,0 +1,125 @@
+/**
+ * Tests for mapArray / indexArray list mapping primitives
+ */
+import { describe, test, expect } from "vitest";
+import {
+  createSignal,
+  createMemo,
+  createRoot,
+  onCleanup,
+  mapArray,
+  indexArray,
+} from "../src/index";
+
+describe("mapArray", () => {
+  test("maps each item once and disposes removed items", () => {
+    const a = { name: "a" };
+    const b = { name: "b" };
+    const c = { name: "c" };
+    const [list, setList] = createSignal([a, b]);
+    const mapped: string[] = [];
+    const disposed: string[] = [];
+
+    createRoot(() => {
+      const rows = createMemo(
+        mapArray(list, (item) => {
+          mapped.push(item.name);
+          onCleanup(() => disposed.push(item.name));
+          return item.name.toUpperCase();
+        })
+      );
+
+      expect(rows()).toEqual(["A", "B"]);
+
+      setList([c, b]);
+      expect(rows()).toEqual(["C", "B"]);
+      expect(mapped).toEqual(["a", "b", "c"]);
+      expect(disposed).toEqual(["a"]);
+    });
+  });
+
+  test("index accessors follow moved items", () => {
+    const a = { name: "a" };
+    const b = { name: "b" };
+    const [list, setList] = createSignal([a, b]);
+
+    createRoot(() => {
+      const rows = createMemo(mapArray(list, (item, index) => ({ item, index })));
+      const [rowA, rowB] = rows();
+      expect(rowA.index()).toBe(0);
+
+      setList([b, a]);
+      expect(rows()[0]).toBe(rowB);
+      expect(rowA.index()).toBe(1);
+      expect(rowB.index()).toBe(0);
+    });
+  });
+
+  test("maps a fallback while the list is empty", () => {
+    const [list, setList] = createSignal<string[]>([]);
+    const disposed: string[] = [];
+
+    createRoot(() => {
+      const rows = createMemo(
+        mapArray(list, (item) => item, {
+          fallback: () => {
+            onCleanup(() => disposed.push("fallback"));
+            return "empty";
+          },
+        })
+      );
+
+      expect(rows()).toEqual(["empty"]);
+
+      setList(["x"]);
+      expect(rows()).toEqual(["x"]);
+      expect(disposed).toEqual(["fallback"]);
+    });
+  });
+
+  test("disposing the owner disposes every item", () => {
+    const [list] = createSignal(["a", "b"]);
+    const disposed: string[] = [];
+
+    createRoot((dispose) => {
+      const rows = createMemo(
+        mapArray(list, (item) => {
+          onCleanup(() => disposed.push(item));
+          return item;
+        })
+      );
+      rows();
+      dispose();
+    });
+
+    expect(disposed.sort()).toEqual(["a", "b"]);
+  });
+});
+
+describe("indexArray", () => {
+  test("updates item accessors in place and trims removed indexes", () => {
+    const [list, setList] = createSignal(["a", "b", "c"]);
+    const disposed: number[] = [];
+    let mapped = 0;
+
+    createRoot(() => {
+      const rows = createMemo(
+        indexArray(list, (item, index) => {
+          mapped++;
+          onCleanup(() => disposed.push(index));
+          return item;
+        })
+      );
+
+      const [first] = rows();
+      expect(first()).toBe("a");
+
+      setList(["z", "b"]);
+      expect(rows()[0]).toBe(first);
+      expect(first()).toBe("z");
+      expect(rows().length).toBe(2);
+      expect(disposed).toEqual([2]);
+      expect(mapped).toBe(3);
+    });
+  });
+});
@@ -4,6 +4,7 @@ import {
   createDeferred,
   createRenderEffect,
   createRoot,
+  createSignal,
 } from "../src/index";
 
 describe("Resource API (SolidJS-style)", () => {
@@ -61,6 +62,18 @@ describe("Resource API (SolidJS-style)", () => {
       expect(resource()).toBe("async-data");
     });
 
+    test("settles with the Promise a fetcher returns", async () => {
+      const [resource] = createResource(async () => "async-data");
+      const [failing] = createResource(async () => {
+        throw new Error("boom");
+      });
+
+      await vi.waitFor(() => expect(resource.state).toBe("ready"));
+      expect(resource()).toBe("async-data");
+      await vi.waitFor(() => expect(failing.state).toBe("errored"));
+      expect(failing.error).toBe("boom");
+    });
+
     test("refetch re-runs fetcher", () => {
       let fetchCount = 0;
       const [resource, { refetch }] = createResource<string>((resolve) => {
@@ -167,4 +180,115 @@ describe("Resource API (SolidJS-style)", () => {
       expect(resource()).toEqual({ data: "fetched" });
     });
   });
+
+  describe("createResource with a source", () => {
+    test("fetches again when the source changes", async () => {
+      const [id, setId] = createSignal(1);
+      const fetcher = vi.fn(async (n: number) => `user-${n}`);
+      const [user] = createResource(id, fetcher);
+
+      await vi.waitFor(() => expect(user()).toBe("user-1"));
+
+      setId(2);
+      expect(user.state).toBe("refreshing");
+      expect(user()).toBe("user-1");
+
+      await vi.waitFor(() => expect(user()).toBe("user-2"));
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    test("aborts stale requests and ignores their results", async () => {
+      const [query, setQuery] = createSignal("a");
+      const resolvers: Array<(value: string) => void> = [];
+      const signals: AbortSignal[] = [];
+      const [result] = createResource(query, (q, { signal }) => {
+        signals.push(signal);
+        return new Promise<string>((resolve) => resolvers.push(() => resolve(q)));
+      });
+
+      setQuery("ab");
+      expect(signals[0].aborted).toBe(true);
+
+      resolvers[1]("ab");
+      resolvers[0]("a");
+      await vi.waitFor(() => expect(result()).toBe("ab"));
+      await Promise.resolve();
+      expect(result()).toBe("ab");
+    });
+
+    test("waits while the source is false, null or undefined", () => {
+      const [ready, setReady] = createSignal<string | false>(false);
+      const fetcher = vi.fn((value: string) => value.toUpperCase());
+      const [resource] = createResource(ready, fetcher);
+
+      expect(fetcher).not.toHaveBeenCalled();
+      expect(resource.state).toBe("unresolved");
+
+      setReady("go");
+      expect(resource()).toBe("GO");
+    });
+
+    test("stops loading when the source is cleared mid-request", async () => {
+      const [id, setId] = createSignal<number | null>(1);
+      const resolvers: Array<() => void> = [];
+      const [user] = createResource(
+        id,
+        (n) => new Promise<string>((resolve) => resolvers.push(() => resolve(`user-${n}`)))
+      );
+
+      setId(null);
+      expect(user.loading).toBe(false);
+      expect(user.state).toBe("unresolved");
+
+      setId(2);
+      resolvers[1]();
+      await vi.waitFor(() => expect(user()).toBe("user-2"));
+
+      setId(3);
+      setId(null);
+      expect(user.state).toBe("ready");
+      expect(user()).toBe("user-2");
+    });
+
+    test("stops loading when its owner is disposed", () => {
+      let resource;
+      createRoot((dispose) => {
+        [resource] = createResource(true, () => new Promise<string>(() => {}));
+        expect(resource.loading).toBe(true);
+        dispose();
+      });
+
+      expect(resource.loading).toBe(false);
+      expect(resource.state).toBe("unresolved");
+    });
+
+    test("supports initialValue, mutate and refetch", async () => {
+      let count = 0;
+      const [resource, { mutate, refetch }] = createResource(
+        async () => ++count,
+        { initialValue: 0 }
+      );
+
+      expect(resource()).toBe(0);
+      expect(resource.state).toBe("refreshing");
+      await vi.waitFor(() => expect(resource()).toBe(1));
+
+      mutate(10);
+      expect(resource()).toBe(10);
+      expect(resource.state).toBe("ready");
+
+      await refetch();
+      expect(resource()).toBe(2);
+    });
+
+    test("reports failures as Error objects", async () => {
+      const [resource] = createResource(true, async () => {
+        throw "boom";
+      });
+
+      await vi.waitFor(() => expect(resource.state).toBe("errored"));
+      expect(resource.error).toBeInstanceOf(Error);
+      expect(resource.error?.message).toBe("boom");
+    });
+  });
 });
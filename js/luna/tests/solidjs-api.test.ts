@@ -21,6 +21,7 @@ import {
   useContext,
   createElement,
   text,
+  textDyn,
   mount,
   For,
 } from "../src/index";
@@ -293,6 +294,62 @@ describe("Index component", () => {
 
     expect(values).toEqual(["x", "y"]);
   });
+
+  test("Index keeps rows when items change and follows the length", () => {
+    const [items, setItems] = createSignal(["a", "b"]);
+    let renders = 0;
+
+    const node = Index({
+      each: items,
+      fallback: text("empty"),
+      children: (itemGetter) => {
+        renders++;
+        return createElement("span", [], [textDyn(() => itemGetter())]);
+      },
+    });
+
+    mount(container, node);
+    const first = container.querySelector("span");
+
+    setItems(["c", "b", "d"]);
+    expect(container.textContent).toBe("cbd");
+    expect(container.querySelector("span")).toBe(first);
+    expect(renders).toBe(3);
+
+    setItems([]);
+    expect(container.textContent).toBe("empty");
+
+    setItems(["e"]);
+    expect(container.textContent).toBe("e");
+  });
+});
+
+describe("For component", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  test("For fallback follows the list emptying and refilling", () => {
+    const [items, setItems] = createSignal<string[]>([]);
+
+    const node = For({
+      each: items,
+      fallback: text("empty"),
+      children: (item) => createElement("li", [], [text(item)]),
+    });
+
+    mount(container, node);
+    expect(container.textContent).toBe("empty");
+
+    setItems(["a", "b"]);
+    expect(container.textContent).toBe("ab");
+
+    setItems([]);
+    expect(container.textContent).toBe("empty");
+  });
 });
 
 describe("Switch/Match components", () => {
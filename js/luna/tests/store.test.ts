@@ -211,6 +211,53 @@ describe("createStore", () => {
 
       expect(state.items).toEqual([1, 2, 3, 4]);
     });
+
+    test("produce only notifies written paths", () => {
+      createRoot(() => {
+        const [state, setState] = createStore({
+          user: { name: "John", age: 30 },
+          settings: { theme: "dark" },
+        });
+        const names: string[] = [];
+        const themes: string[] = [];
+
+        createRenderEffect(() => {
+          names.push(state.user.name);
+        });
+        createRenderEffect(() => {
+          themes.push(state.settings.theme);
+        });
+
+        setState(
+          produce((draft: { user: { name: string; age: number } }) => {
+            draft.user.age = 31;
+          })
+        );
+        expect(names).toEqual(["John"]);
+        expect(themes).toEqual(["dark"]);
+        expect(state.user.age).toBe(31);
+
+        setState(
+          produce((draft: { user: { name: string; age: number } }) => {
+            draft.user.name = "Jane";
+          })
+        );
+        expect(names).toEqual(["John", "Jane"]);
+        expect(themes).toEqual(["dark"]);
+      });
+    });
+
+    test("produce does not mutate the previous state", () => {
+      const base = { a: { b: 1 }, c: { d: 1 } };
+      const next = produce((draft: typeof base) => {
+        draft.a.b = 2;
+      })(base);
+
+      expect(base.a.b).toBe(1);
+      expect(next.a.b).toBe(2);
+      // Untouched branches are shared
+      expect(next.c).toBe(base.c);
+    });
   });
 
   describe("reconcile helper", () => {
@@ -222,6 +269,74 @@ describe("createStore", () => {
       setState("items", reconcile([4, 5, 6]));
       expect(state.items).toEqual([4, 5, 6]);
     });
+
+    test("reconcile matches items by key and keeps their identity", () => {
+      const prev = [
+        { id: 1, text: "a" },
+        { id: 2, text: "b" },
+      ];
+      const next = reconcile([
+        { id: 2, text: "b" },
+        { id: 1, text: "a" },
+      ])(prev);
+
+      expect(next[0]).toBe(prev[1]);
+      expect(next[1]).toBe(prev[0]);
+    });
+
+    test("reconcile only notifies changed paths", () => {
+      createRoot(() => {
+        const [state, setState] = createStore({
+          todos: [
+            { id: 1, text: "First", done: false },
+            { id: 2, text: "Second", done: false },
+          ],
+        });
+        const first: string[] = [];
+        const done: boolean[] = [];
+        const lengths: number[] = [];
+
+        createRenderEffect(() => {
+          first.push(state.todos[0].text);
+        });
+        createRenderEffect(() => {
+          done.push(state.todos[1].done);
+        });
+        createRenderEffect(() => {
+          lengths.push(state.todos.length);
+        });
+
+        setState(
+          "todos",
+          reconcile([
+            { id: 1, text: "First", done: false },
+            { id: 2, text: "Second", done: true },
+          ])
+        );
+        expect(first).toEqual(["First"]);
+        expect(done).toEqual([false, true]);
+        expect(lengths).toEqual([2]);
+
+        setState(
+          "todos",
+          reconcile([
+            { id: 1, text: "First", done: false },
+            { id: 2, text: "Second", done: true },
+            { id: 3, text: "Third", done: false },
+          ])
+        );
+        expect(first).toEqual(["First"]);
+        expect(lengths).toEqual([2, 3]);
+      });
+    });
+
+    test("reconcile with merge diffs unmatched items in place", () => {
+      const prev = [{ id: 1, text: "a", tags: ["x"] }];
+      const next = reconcile([{ id: 2, text: "b", tags: ["x"] }], { merge: true })(prev);
+
+      expect(next[0]).toEqual({ id: 2, text: "b", tags: ["x"] });
+      expect(next[0].tags).toBe(prev[0].tags);
+    });
   });
 
   describe("Edge cases", () => {
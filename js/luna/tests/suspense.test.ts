@@ -0,0 +1,135 @@
+/**
+ * Tests for Suspense boundaries and transitions
+ */
+import { describe, test, expect, beforeEach } from "vitest";
+import {
+  createSignal,
+  createDeferred,
+  createResource,
+  createElement,
+  createRoot,
+  render,
+  Show,
+  text,
+  textDyn,
+  Suspense,
+  useTransition,
+} from "../src/index";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("Suspense component", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  test("shows fallback until resources read inside resolve", () => {
+    const [resource, resolve] = createDeferred<string>();
+
+    const node = Suspense({
+      fallback: text("Loading..."),
+      children: () => textDyn(() => resource() ?? ""),
+    });
+
+    render(container, node);
+    expect(container.textContent).toBe("Loading...");
+
+    resolve("Content loaded");
+    expect(container.textContent).toBe("Content loaded");
+  });
+
+  test("renders between comment anchors that fit inside tables", () => {
+    const [resource, resolve] = createDeferred<string>();
+    const cell = () => createElement("td", [], [textDyn(() => resource() ?? "")]);
+
+    const node = createElement("tbody", [], [
+      Suspense({
+        id: "rows",
+        fallback: () => createElement("tr", [], [createElement("td", [], [text("Loading...")])]),
+        children: () => createElement("tr", [], [cell()]),
+      }),
+    ]);
+
+    render(container, node);
+    const tbody = container.querySelector("tbody")!;
+    expect(tbody.firstChild?.nodeType).toBe(Node.COMMENT_NODE);
+    expect(tbody.firstChild?.nodeValue).toBe("suspense:rows");
+    expect(tbody.lastChild?.nodeValue).toBe("/suspense:rows");
+
+    resolve("Row");
+    expect(Array.from(tbody.children, (el) => el.tagName)).toEqual(["TR"]);
+    expect(tbody.textContent).toBe("Row");
+  });
+
+  test("does not suspend on resources that are never read", () => {
+    const [resource] = createDeferred<string>();
+
+    const node = Suspense({
+      fallback: text("Loading..."),
+      children: () => text(`pending: ${resource.loading}`),
+    });
+
+    render(container, node);
+    expect(container.textContent).toBe("pending: true");
+  });
+
+  test("stops waiting for resources disposed while pending", () => {
+    const [visible, setVisible] = createSignal(true);
+
+    const node = Suspense({
+      fallback: text("Loading..."),
+      children: () =>
+        Show({
+          when: visible,
+          children: () => {
+            const [data] = createResource(() => new Promise<string>(() => {}));
+            return textDyn(() => data() ?? "");
+          },
+        }),
+    });
+
+    render(container, node);
+    expect(container.textContent).toBe("Loading...");
+
+    setVisible(false);
+    expect(container.textContent).toBe("");
+  });
+
+  test("refetches fall back unless started in a transition", async () => {
+    const [id, setId] = createSignal(1);
+    const requests: (() => void)[] = [];
+    let node;
+
+    createRoot(() => {
+      const [user] = createResource(
+        id,
+        (v) => new Promise<string>((resolve) => requests.push(() => resolve(`user ${v}`)))
+      );
+      node = Suspense({
+        fallback: text("Loading..."),
+        children: () => textDyn(() => user() ?? ""),
+      });
+    });
+
+    render(container, node);
+    requests[0]();
+    await flush();
+    expect(container.textContent).toBe("user 1");
+
+    const [isPending, start] = useTransition();
+    const done = start(() => setId(2));
+    expect(isPending()).toBe(true);
+    expect(container.textContent).toBe("user 1");
+
+    requests[1]();
+    await done;
+    expect(isPending()).toBe(false);
+    expect(container.textContent).toBe("user 2");
+
+    setId(3);
+    expect(container.textContent).toBe("Loading...");
+  });
+});
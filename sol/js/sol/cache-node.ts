@@ -0,0 +1,348 @@
+/**
+ * Sol Framework Cache Adapters for Node.js
+ *
+ * Persistent ISR caches that survive restarts and can be shared between
+ * worker processes:
+ * - File system (atomic writes + JSON metadata sidecar)
+ * - SQLite via `node:sqlite` (Node.js 22.5+)
+ *
+ * Kept out of `./cache` so Workers bundles never pull in Node built-ins.
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type { DatabaseSync } from 'node:sqlite';
+import {
+  MemoryCacheAdapter,
+  type CacheAdapter,
+  type CacheEntry,
+  type ISRCacheOptions,
+} from './cache';
+
+// ============================================================================
+// File System Adapter
+// ============================================================================
+
+interface FileSystemCacheMetadata {
+  key: string;
+  generatedAt: number;
+  revalidateAfter?: number;
+  tags?: string[];
+}
+
+const hashName = (value: string): string =>
+  createHash('sha256').update(value).digest('hex');
+
+/**
+ * Stores each entry as `entries/<hash>.html` plus a `<hash>.json`
+ * metadata sidecar. Tags are indexed as marker files under
+ * `tags/<tag hash>/<key hash>`, so processes never rewrite a shared index.
+ */
+export class FileSystemCacheAdapter implements CacheAdapter {
+  private entriesDir: string;
+  private tagsDir: string;
+  private locksDir: string;
+
+  constructor(private dir: string) {
+    this.entriesDir = join(dir, 'entries');
+    this.tagsDir = join(dir, 'tags');
+    this.locksDir = join(dir, 'locks');
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const hash = hashName(key);
+    const meta = await this.readMetadata(hash);
+    if (!meta || meta.key !== key) return null;
+
+    const value = await readFile(join(this.entriesDir, `${hash}.html`), 'utf-8').catch(() => null);
+    if (value === null) return null;
+
+    return {
+      value,
+      generatedAt: meta.generatedAt,
+      revalidateAfter: meta.revalidateAfter,
+    };
+  }
+
+  async set(key: string, value: string, options?: ISRCacheOptions): Promise<void> {
+    const hash = hashName(key);
+    await mkdir(this.entriesDir, { recursive: true });
+
+    // Drop tag markers of the entry being replaced
+    const previous = await this.readMetadata(hash);
+    if (previous?.tags) {
+      await this.unindexTags(hash, previous.tags);
+    }
+
+    const meta: FileSystemCacheMetadata = {
+      key,
+      generatedAt: Date.now(),
+      revalidateAfter: options?.revalidate
+        ? Date.now() + options.revalidate * 1000
+        : undefined,
+      tags: options?.tags,
+    };
+
+    // Value first: metadata is only visible once its value is in place
+    await this.writeAtomic(join(this.entriesDir, `${hash}.html`), value);
+    await this.writeAtomic(join(this.entriesDir, `${hash}.json`), JSON.stringify(meta));
+
+    for (const tag of options?.tags ?? []) {
+      const tagDir = join(this.tagsDir, hashName(tag));
+      await mkdir(tagDir, { recursive: true });
+      await writeFile(join(tagDir, hash), '');
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.remove(hashName(key));
+  }
+
+  async invalidateTag(tag: string): Promise<void> {
+    const tagDir = join(this.tagsDir, hashName(tag));
+    const hashes = await readdir(tagDir).catch(() => [] as string[]);
+    await Promise.all(hashes.map((hash) => this.remove(hash)));
+    await rm(tagDir, { recursive: true, force: true });
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const files = await readdir(this.entriesDir).catch(() => [] as string[]);
+    const keys: string[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      const meta = await this.readMetadata(file.slice(0, -'.json'.length));
+      if (meta?.key.startsWith(prefix)) keys.push(meta.key);
+    }
+    return keys;
+  }
+
+  async acquireLock(key: string, ttl: number): Promise<boolean> {
+    await mkdir(this.locksDir, { recursive: true });
+    const file = join(this.locksDir, hashName(key));
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        // `wx` fails if the file exists, so only one process creates it
+        await writeFile(file, String(Date.now() + ttl * 1000), { flag: 'wx' });
+        return true;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e;
+      }
+
+      // Take over locks left behind by crashed processes
+      const expiresAt = Number(await readFile(file, 'utf-8').catch(() => '0'));
+      if (expiresAt > Date.now()) return false;
+      await rm(file, { force: true });
+    }
+    return false;
+  }
+
+  async releaseLock(key: string): Promise<void> {
+    await rm(join(this.locksDir, hashName(key)), { force: true });
+  }
+
+  /** Remove every cached entry */
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+
+  private async readMetadata(hash: string): Promise<FileSystemCacheMetadata | null> {
+    try {
+      return JSON.parse(await readFile(join(this.entriesDir, `${hash}.json`), 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private async remove(hash: string): Promise<void> {
+    const meta = await this.readMetadata(hash);
+    // Metadata goes first so readers never see an entry without its value
+    await rm(join(this.entriesDir, `${hash}.json`), { force: true });
+    await rm(join(this.entriesDir, `${hash}.html`), { force: true });
+    if (meta?.tags) {
+      await this.unindexTags(hash, meta.tags);
+    }
+  }
+
+  private async unindexTags(hash: string, tags: string[]): Promise<void> {
+    await Promise.all(
+      tags.map((tag) => rm(join(this.tagsDir, hashName(tag), hash), { force: true }))
+    );
+  }
+
+  /** Write to a temp file and rename it into place */
+  private async writeAtomic(file: string, content: string): Promise<void> {
+    const tmp = `${file}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(tmp, content);
+      await rename(tmp, file);
+    } catch (e) {
+      await rm(tmp, { force: true });
+      throw e;
+    }
+  }
+}
+
+// ============================================================================
+// SQLite Adapter
+// ============================================================================
+
+/**
+ * Stores entries in a SQLite database through `node:sqlite`
+ *
+ * The database runs in WAL mode, so several processes can share one file.
+ * `node:sqlite` is loaded on first use; it requires Node.js 22.5+.
+ */
+export class SqliteCacheAdapter implements CacheAdapter {
+  private dbPromise: Promise<DatabaseSync> | null = null;
+
+  constructor(private path: string) {}
+
+  private getDb(): Promise<DatabaseSync> {
+    this.dbPromise ??= (async () => {
+      const { DatabaseSync } = await import('node:sqlite');
+      if (this.path !== ':memory:') {
+        await mkdir(dirname(this.path), { recursive: true });
+      }
+      const db = new DatabaseSync(this.path);
+      db.exec(`
+        PRAGMA journal_mode = WAL;
+        PRAGMA busy_timeout = 5000;
+        PRAGMA foreign_keys = ON;
+        CREATE TABLE IF NOT EXISTS sol_cache (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          generated_at INTEGER NOT NULL,
+          revalidate_after INTEGER
+        );
+        CREATE TABLE IF NOT EXISTS sol_cache_tags (
+          tag TEXT NOT NULL,
+          key TEXT NOT NULL REFERENCES sol_cache(key) ON DELETE CASCADE,
+          PRIMARY KEY (tag, key)
+        );
+        CREATE TABLE IF NOT EXISTS sol_cache_locks (
+          key TEXT PRIMARY KEY,
+          expires_at INTEGER NOT NULL
+        );
+      `);
+      return db;
+    })();
+    return this.dbPromise;
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const db = await this.getDb();
+    const row = db
+      .prepare('SELECT value, generated_at, revalidate_after FROM sol_cache WHERE key = ?')
+      .get(key) as
+      | { value: string; generated_at: number; revalidate_after: number | null }
+      | undefined;
+
+    if (!row) return null;
+
+    return {
+      value: row.value,
+      generatedAt: row.generated_at,
+      revalidateAfter: row.revalidate_after ?? undefined,
+    };
+  }
+
+  async set(key: string, value: string, options?: ISRCacheOptions): Promise<void> {
+    const db = await this.getDb();
+    const now = Date.now();
+    const revalidateAfter = options?.revalidate ? now + options.revalidate * 1000 : null;
+
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      // Replacing the row cascades to its old tags
+      db.prepare('DELETE FROM sol_cache WHERE key = ?').run(key);
+      db.prepare(
+        'INSERT INTO sol_cache (key, value, generated_at, revalidate_after) VALUES (?, ?, ?, ?)'
+      ).run(key, value, now, revalidateAfter);
+      const insertTag = db.prepare('INSERT OR IGNORE INTO sol_cache_tags (tag, key) VALUES (?, ?)');
+      for (const tag of options?.tags ?? []) {
+        insertTag.run(tag, key);
+      }
+      db.exec('COMMIT');
+    } catch (e) {
+      db.exec('ROLLBACK');
+      throw e;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = await this.getDb();
+    db.prepare('DELETE FROM sol_cache WHERE key = ?').run(key);
+  }
+
+  async invalidateTag(tag: string): Promise<void> {
+    const db = await this.getDb();
+    db.prepare(
+      'DELETE FROM sol_cache WHERE key IN (SELECT key FROM sol_cache_tags WHERE tag = ?)'
+    ).run(tag);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const db = await this.getDb();
+    const rows = db
+      .prepare('SELECT key FROM sol_cache WHERE substr(key, 1, length(?)) = ?')
+      .all(prefix, prefix) as { key: string }[];
+    return rows.map((row) => row.key);
+  }
+
+  async acquireLock(key: string, ttl: number): Promise<boolean> {
+    const db = await this.getDb();
+    const now = Date.now();
+    db.prepare('DELETE FROM sol_cache_locks WHERE key = ? AND expires_at <= ?').run(key, now);
+    const { changes } = db
+      .prepare('INSERT OR IGNORE INTO sol_cache_locks (key, expires_at) VALUES (?, ?)')
+      .run(key, now + ttl * 1000);
+    return Number(changes) > 0;
+  }
+
+  async releaseLock(key: string): Promise<void> {
+    const db = await this.getDb();
+    db.prepare('DELETE FROM sol_cache_locks WHERE key = ?').run(key);
+  }
+
+  /** Close the database */
+  async close(): Promise<void> {
+    if (!this.dbPromise) return;
+    (await this.dbPromise).close();
+    this.dbPromise = null;
+  }
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a cache adapter from environment variables
+ *
+ * - `SOL_CACHE_ADAPTER`: `fs` | `sqlite` | `memory`
+ * - `SOL_CACHE_DIR`: directory for `fs` (default: `.sol/cache`)
+ * - `SOL_CACHE_PATH`: database file for `sqlite` (default: `.sol/cache.db`)
+ *
+ * Returns undefined when `SOL_CACHE_ADAPTER` is not set.
+ */
+export function createNodeCacheAdapter(
+  env: Record<string, string | undefined> = process.env
+): CacheAdapter | undefined {
+  switch (env.SOL_CACHE_ADAPTER) {
+    case undefined:
+    case '':
+      return undefined;
+    case 'fs':
+      return new FileSystemCacheAdapter(env.SOL_CACHE_DIR || '.sol/cache');
+    case 'sqlite':
+      return new SqliteCacheAdapter(env.SOL_CACHE_PATH || '.sol/cache.db');
+    case 'memory':
+      return new MemoryCacheAdapter();
+    default:
+      throw new Error(
+        `Unknown SOL_CACHE_ADAPTER "${env.SOL_CACHE_ADAPTER}" (expected fs, sqlite or memory)`
+      );
+  }
+}
@@ -36,6 +36,17 @@ export interface CacheAdapter {
   delete(key: string): Promise<void>;
   /** Invalidate all entries with a specific tag */
   invalidateTag?(tag: string): Promise<void>;
+  /** List keys starting with a prefix (enables prefix and glob purges) */
+  keys?(prefix: string): Promise<string[]>;
+  /**
+   * Take a lock that expires after `ttl` seconds
+   *
+   * Resolves false when the lock is already held. Used to keep concurrent
+   * isolates/processes from regenerating the same page.
+   */
+  acquireLock?(key: string, ttl: number): Promise<boolean>;
+  /** Release a lock taken with acquireLock */
+  releaseLock?(key: string): Promise<void>;
 }
 
 // ============================================================================
@@ -47,6 +58,11 @@ export interface CloudflareKVNamespace {
   put(key: string, value: string, options?: { expirationTtl?: number; metadata?: unknown }): Promise<void>;
   delete(key: string): Promise<void>;
   getWithMetadata<T>(key: string, options?: { type?: 'text' }): Promise<{ value: string | null; metadata: T | null }>;
+  list?(options?: { prefix?: string; cursor?: string }): Promise<{
+    keys: { name: string }[];
+    list_complete: boolean;
+    cursor?: string;
+  }>;
 }
 
 export class CloudflareKVAdapter implements CacheAdapter {
@@ -108,6 +124,40 @@ export class CloudflareKVAdapter implements CacheAdapter {
       await this.kv.delete(tagKey);
     }
   }
+
+  async acquireLock(key: string, ttl: number): Promise<boolean> {
+    // KV has no compare-and-swap, so this only narrows the race window
+    const lockKey = `__lock:${key}`;
+    const expiresAt = await this.kv.get(lockKey, { type: 'text' });
+    if (expiresAt && Number(expiresAt) > Date.now()) {
+      return false;
+    }
+
+    await this.kv.put(lockKey, String(Date.now() + ttl * 1000), {
+      expirationTtl: Math.max(60, ttl), // KV minimum TTL
+    });
+    return true;
+  }
+
+  async releaseLock(key: string): Promise<void> {
+    await this.kv.delete(`__lock:${key}`);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    if (!this.kv.list) return [];
+
+    const keys: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list({ prefix, cursor });
+      for (const { name } of page.keys) {
+        // Skip the tag index and lock entries
+        if (!name.startsWith('__tag:') && !name.startsWith('__lock:')) keys.push(name);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return keys;
+  }
 }
 
 // ============================================================================
@@ -180,6 +230,11 @@ export class CloudflareCacheAdapter implements CacheAdapter {
 export class MemoryCacheAdapter implements CacheAdapter {
   private cache = new Map<string, CacheEntry>();
   private accessOrder: string[] = [];
+  /** tag -> keys, and key -> tags for cleanup on delete/eviction */
+  private tagIndex = new Map<string, Set<string>>();
+  private keyTags = new Map<string, string[]>();
+  /** lock key -> expiry timestamp */
+  private locks = new Map<string, number>();
 
   constructor(private maxSize: number = 1000) {}
 
@@ -198,11 +253,16 @@ export class MemoryCacheAdapter implements CacheAdapter {
   }
 
   async set(key: string, value: string, options?: ISRCacheOptions): Promise<void> {
+    // Overwrites replace the entry (and its tags) rather than evicting
+    if (this.cache.has(key)) {
+      this.remove(key);
+    }
+
     // Evict oldest if at capacity
     while (this.cache.size >= this.maxSize && this.accessOrder.length > 0) {
       const oldest = this.accessOrder.shift();
       if (oldest) {
-        this.cache.delete(oldest);
+        this.remove(oldest);
       }
     }
 
@@ -216,20 +276,77 @@ export class MemoryCacheAdapter implements CacheAdapter {
 
     this.cache.set(key, entry);
     this.accessOrder.push(key);
+
+    if (options?.tags?.length) {
+      this.keyTags.set(key, options.tags);
+      for (const tag of options.tags) {
+        let keys = this.tagIndex.get(tag);
+        if (!keys) {
+          keys = new Set();
+          this.tagIndex.set(tag, keys);
+        }
+        keys.add(key);
+      }
+    }
   }
 
   async delete(key: string): Promise<void> {
-    this.cache.delete(key);
-    const idx = this.accessOrder.indexOf(key);
-    if (idx > -1) {
-      this.accessOrder.splice(idx, 1);
+    this.remove(key);
+  }
+
+  async invalidateTag(tag: string): Promise<void> {
+    const keys = this.tagIndex.get(tag);
+    if (!keys) return;
+    for (const key of Array.from(keys)) {
+      this.remove(key);
+    }
+    this.tagIndex.delete(tag);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    return Array.from(this.cache.keys()).filter((key) => key.startsWith(prefix));
+  }
+
+  async acquireLock(key: string, ttl: number): Promise<boolean> {
+    const expiresAt = this.locks.get(key);
+    if (expiresAt && expiresAt > Date.now()) {
+      return false;
     }
+    this.locks.set(key, Date.now() + ttl * 1000);
+    return true;
+  }
+
+  async releaseLock(key: string): Promise<void> {
+    this.locks.delete(key);
   }
 
   /** Clear all cache entries */
   clear(): void {
     this.cache.clear();
     this.accessOrder = [];
+    this.tagIndex.clear();
+    this.keyTags.clear();
+    this.locks.clear();
+  }
+
+  /** Remove an entry along with its access order and tag index entries */
+  private remove(key: string): void {
+    this.cache.delete(key);
+    const idx = this.accessOrder.indexOf(key);
+    if (idx > -1) {
+      this.accessOrder.splice(idx, 1);
+    }
+
+    const tags = this.keyTags.get(key);
+    if (!tags) return;
+    this.keyTags.delete(key);
+    for (const tag of tags) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    }
   }
 
   /** Get cache stats */
@@ -253,8 +370,23 @@ export interface ISRContext {
   waitUntil?: (promise: Promise<unknown>) => void;
 }
 
+export interface ISRCacheManagerOptions {
+  /** Seconds a background regeneration lock is held at most (default: 30) */
+  lockTTL?: number;
+}
+
 export class ISRCacheManager {
-  constructor(private adapter: CacheAdapter) {}
+  /** Renders in progress in this isolate, shared by concurrent requests */
+  private inflight = new Map<string, Promise<string>>();
+  private revalidating = new Map<string, Promise<void>>();
+  private lockTTL: number;
+
+  constructor(
+    private adapter: CacheAdapter,
+    options: ISRCacheManagerOptions = {}
+  ) {
+    this.lockTTL = options.lockTTL ?? 30;
+  }
 
   /**
    * Get cached page with ISR logic
@@ -313,8 +445,45 @@ export class ISRCacheManager {
     }
   }
 
+  /**
+   * Invalidate all entries whose key starts with `prefix`
+   *
+   * Returns the number of deleted entries (0 when the adapter cannot list keys)
+   */
+  async invalidatePrefix(prefix: string): Promise<number> {
+    if (!this.adapter.keys) return 0;
+    const keys = await this.adapter.keys(prefix);
+    await Promise.all(keys.map((key) => this.adapter.delete(key)));
+    return keys.length;
+  }
+
+  /**
+   * Invalidate all entries whose key matches a glob pattern
+   *
+   * `*` matches within a path segment, `**` across segments
+   * (e.g., `page:/blog/*` or `page:/docs/**`).
+   */
+  async invalidateGlob(pattern: string): Promise<number> {
+    const star = pattern.indexOf('*');
+    if (star === -1) {
+      if (!(await this.adapter.get(pattern))) return 0;
+      await this.adapter.delete(pattern);
+      return 1;
+    }
+    if (!this.adapter.keys) return 0;
+
+    const regex = globToRegExp(pattern);
+    const keys = (await this.adapter.keys(pattern.slice(0, star))).filter((key) => regex.test(key));
+    await Promise.all(keys.map((key) => this.adapter.delete(key)));
+    return keys.length;
+  }
+
   /**
    * Handle ISR request with stale-while-revalidate
+   *
+   * Concurrent requests for the same key share one render: misses await
+   * the same promise and a stale entry is regenerated at most once at a
+   * time. Adapters with `acquireLock` extend this across isolates.
    */
   async handleISR(
     key: string,
@@ -324,22 +493,20 @@ export class ISRCacheManager {
     const cached = await this.get(key);
 
     if (cached) {
-      if (cached.status === 'stale' && options.waitUntil) {
+      if (cached.status === 'stale' && options.waitUntil && !this.revalidating.has(key)) {
         // Return stale content and regenerate in background
-        options.waitUntil(
-          (async () => {
-            const html = await generateFn();
-            await this.set(key, html, options);
-          })()
-        );
+        const revalidation = this.revalidate(key, generateFn, options).finally(() => {
+          this.revalidating.delete(key);
+        });
+        this.revalidating.set(key, revalidation);
+        options.waitUntil(revalidation);
       }
 
       return cached;
     }
 
     // Cache miss - generate and cache
-    const html = await generateFn();
-    await this.set(key, html, options);
+    const html = await this.regenerate(key, generateFn, options);
 
     return {
       html,
@@ -347,6 +514,65 @@ export class ISRCacheManager {
       age: 0,
     };
   }
+
+  /**
+   * Generate and store a page, joining a render already in flight
+   */
+  private regenerate(
+    key: string,
+    generateFn: () => Promise<string>,
+    options: ISRCacheOptions
+  ): Promise<string> {
+    let pending = this.inflight.get(key);
+    if (!pending) {
+      pending = (async () => {
+        const html = await generateFn();
+        await this.set(key, html, options);
+        return html;
+      })().finally(() => {
+        this.inflight.delete(key);
+      });
+      this.inflight.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Regenerate a stale page unless another isolate holds its lock
+   */
+  private async revalidate(
+    key: string,
+    generateFn: () => Promise<string>,
+    options: ISRCacheOptions
+  ): Promise<void> {
+    if (!this.adapter.acquireLock) {
+      await this.regenerate(key, generateFn, options);
+      return;
+    }
+
+    if (!(await this.adapter.acquireLock(key, this.lockTTL))) return;
+    try {
+      await this.regenerate(key, generateFn, options);
+    } finally {
+      await this.adapter.releaseLock?.(key);
+    }
+  }
+}
+
+/**
+ * Convert a key glob (`*` within a segment, `**` across) to a RegExp
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('**')
+    .map((part) =>
+      part
+        .split('*')
+        .map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^/]*')
+    )
+    .join('.*');
+  return new RegExp(`^${source}$`);
 }
 
 // ============================================================================
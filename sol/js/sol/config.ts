@@ -34,6 +34,10 @@ export interface LocaleConfig {
 
 export interface NavigationConfig {
   spa?: boolean;
+  /**
+   * Wrap CSR swaps in view transitions where supported. Emits
+   * `<meta name="sol-view-transitions" content="on">`, which sol-nav reads.
+   */
   viewTransitions?: boolean;
   keyboard?: boolean;
 }
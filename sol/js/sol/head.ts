@@ -0,0 +1,206 @@
+/**
+ * Sol Framework Document Head Rendering
+ *
+ * Renders the structured `head` option of a page into escaped tags,
+ * lets page tags override matching `defaultHead` tags, and wraps them
+ * for fragment responses so CSR navigation can swap them in.
+ */
+
+import { escapeHtml } from './html';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HeadLink {
+  rel: string;
+  href: string;
+  hreflang?: string;
+  type?: string;
+  as?: string;
+  media?: string;
+  sizes?: string;
+  title?: string;
+  crossorigin?: string;
+}
+
+export interface HeadScript {
+  src: string;
+  type?: string;
+  async?: boolean;
+  defer?: boolean;
+  nomodule?: boolean;
+  integrity?: string;
+  crossorigin?: string;
+}
+
+/**
+ * Structured document head of a page
+ *
+ * @example
+ * {
+ *   meta: { description: 'All posts' },
+ *   og: { title: 'Posts', image: 'https://example.com/og.png' },
+ *   twitter: { card: 'summary_large_image' },
+ *   links: [
+ *     { rel: 'canonical', href: 'https://example.com/posts' },
+ *     { rel: 'alternate', hreflang: 'ja', href: 'https://example.com/ja/posts' },
+ *   ],
+ *   jsonLd: { '@context': 'https://schema.org', '@type': 'Blog' },
+ * }
+ */
+export interface PageHead {
+  /** `<meta name>` tags */
+  meta?: Record<string, string>;
+  /** OpenGraph `<meta property="og:*">` tags, keyed without the prefix */
+  og?: Record<string, string>;
+  /** `<meta name="twitter:*">` tags, keyed without the prefix */
+  twitter?: Record<string, string>;
+  /** `<link>` tags (canonical, hreflang alternates, icons, ...) */
+  links?: HeadLink[];
+  /** External scripts */
+  scripts?: HeadScript[];
+  /** JSON-LD structured data, one script per object */
+  jsonLd?: object | object[];
+}
+
+type Attrs = Record<string, string | boolean | undefined>;
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/** Attribute names allowed through (keys of user-supplied objects) */
+const ATTR_NAME = /^[a-zA-Z_:][-a-zA-Z0-9_:.]*$/;
+
+function renderTag(tag: string, attrs: Attrs, content?: string): string {
+  const attrStr = Object.entries(attrs)
+    .filter(([name, v]) => v !== undefined && v !== false && ATTR_NAME.test(name))
+    .map(([name, v]) => (v === true ? ` ${name}` : ` ${name}="${escapeHtml(String(v))}"`))
+    .join('');
+  // Marks tags owned by the page, replaced on CSR navigation
+  const open = `<${tag}${attrStr} data-sol-head>`;
+  return content === undefined ? open : `${open}${content}</${tag}>`;
+}
+
+/**
+ * Key of a tag that a later tag with the same key replaces
+ */
+function tagKey(tag: string, attrs: Record<string, string | boolean | undefined>): string | null {
+  const str = (name: string) => {
+    const value = attrs[name];
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  switch (tag) {
+    case 'meta': {
+      const name = str('name') ?? str('property');
+      if (name) return `meta:${name.toLowerCase()}`;
+      if (attrs.charset !== undefined) return 'meta:charset';
+      return null;
+    }
+    case 'link': {
+      const rel = str('rel')?.toLowerCase();
+      if (rel === 'canonical') return 'link:canonical';
+      if (rel === 'alternate' && str('hreflang')) return `link:alternate:${str('hreflang')}`;
+      return rel && str('href') ? `link:${rel}:${str('href')}` : null;
+    }
+    case 'script':
+      return str('src') ? `script:${str('src')}` : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Serialize JSON for an inline script (cannot close the element)
+ */
+function inlineJson(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026');
+}
+
+/**
+ * Render a page head to HTML
+ *
+ * Legacy `meta` tuples render as `<meta name>` tags. When two tags share a
+ * key (same meta name/property, canonical, hreflang, link or script URL),
+ * the later one wins; structured `head` entries come last.
+ */
+export function renderHeadTags(head?: PageHead, meta?: [string, string][]): string {
+  const tags = new Map<string, string>();
+  let unkeyed = 0;
+  const add = (tag: string, attrs: Attrs, content?: string) => {
+    const key = tagKey(tag, attrs) ?? `#${unkeyed++}`;
+    // Re-insert so the winning tag takes the later position
+    tags.delete(key);
+    tags.set(key, renderTag(tag, attrs, content));
+  };
+
+  for (const [name, content] of meta ?? []) {
+    add('meta', { name, content });
+  }
+  for (const [name, content] of Object.entries(head?.meta ?? {})) {
+    add('meta', { name, content });
+  }
+  for (const [name, content] of Object.entries(head?.og ?? {})) {
+    add('meta', { property: `og:${name}`, content });
+  }
+  for (const [name, content] of Object.entries(head?.twitter ?? {})) {
+    add('meta', { name: `twitter:${name}`, content });
+  }
+  for (const link of head?.links ?? []) {
+    add('link', { ...link });
+  }
+  for (const script of head?.scripts ?? []) {
+    add('script', { ...script }, '');
+  }
+  const jsonLd = head?.jsonLd;
+  for (const data of Array.isArray(jsonLd) ? jsonLd : jsonLd ? [jsonLd] : []) {
+    add('script', { type: 'application/ld+json' }, inlineJson(data));
+  }
+
+  return Array.from(tags.values()).join('\n  ');
+}
+
+/** A whole `<script>` element, or a `<meta>` / `<link>` tag */
+const HEAD_TAG = /<(script)\b([^>]*)>[\s\S]*?<\/script>|<(meta|link)\b([^>]*)>/gi;
+const ATTR = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function parseAttrs(source: string): Record<string, string | boolean> {
+  const attrs: Record<string, string | boolean> = {};
+  for (const [, name, dq, sq, bare] of source.matchAll(ATTR)) {
+    attrs[name.toLowerCase()] = dq ?? sq ?? bare ?? true;
+  }
+  return attrs;
+}
+
+/**
+ * Drop `defaultHead` tags that rendered page tags override
+ */
+export function mergeDefaultHead(defaultHead: string, pageTags: string): string {
+  if (!pageTags) return defaultHead;
+
+  const keyOf = (groups: (string | undefined)[]) =>
+    tagKey((groups[0] ?? groups[2])!.toLowerCase(), parseAttrs(groups[1] ?? groups[3] ?? ''));
+
+  const keys = new Set<string>();
+  for (const [, ...groups] of pageTags.matchAll(HEAD_TAG)) {
+    const key = keyOf(groups);
+    if (key) keys.add(key);
+  }
+
+  return defaultHead.replace(HEAD_TAG, (match, ...groups: (string | undefined)[]) => {
+    const key = keyOf(groups.slice(0, 4));
+    return key && keys.has(key) ? '' : match;
+  });
+}
+
+/**
+ * Wrap page head tags for a fragment response
+ */
+export function renderHeadAssets(pageTags: string): string {
+  return `<template data-sol-head-assets>${pageTags}</template>`;
+}
@@ -50,13 +50,27 @@ export { SolRoutes, DEFAULT_ROOT_TEMPLATE } from './routes';
 export type {
   SolRoute,
   PageRoute,
+  VarySpec,
   LayoutRoute,
   GetRoute,
   PostRoute,
+  ActionRoute,
+  NotFoundRoute,
+  ErrorBoundaryRoute,
   WithMiddlewareRoute,
   PageHandler,
+  PageLoader,
+  PathParams,
   LayoutHandler,
+  LayoutLoader,
   ApiHandler,
+  ActionHandler,
+  ActionValidator,
+  ActionResult,
+  ActionProps,
+  ActionState,
+  ErrorBoundaryHandler,
+  ErrorBoundaryProps,
   Middleware,
   PageProps,
   RouteParams,
@@ -131,6 +145,7 @@ export {
   createWorkerApp,
   extractParams,
   isFragmentRequest,
+  serializeLoaderData,
   wrapInTemplate,
   revalidateMiddleware,
 } from './server-runtime';
@@ -140,6 +155,20 @@ export type {
   ExecutionContext,
 } from './server-runtime';
 
+// Document Head
+export { renderHeadTags, mergeDefaultHead, renderHeadAssets } from './head';
+export type { PageHead, HeadLink, HeadScript } from './head';
+
+// Streaming
+export {
+  DeferredSections,
+  createHTMLStream,
+  renderReplacementChunk,
+  renderSuspenseAnchors,
+  resolveDeferredInline,
+} from './streaming';
+export type { DeferFn, DeferOptions } from './streaming';
+
 // ISR Cache
 export {
   ISRCacheManager,
@@ -157,5 +186,6 @@ export type {
   ISRCacheOptions,
   ISRResult,
   ISRContext,
+  ISRCacheManagerOptions,
   CloudflareKVNamespace,
 } from './cache';
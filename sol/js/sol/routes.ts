@@ -5,46 +5,171 @@
  */
 
 import type { Context } from 'hono';
+import type { DeferFn } from './streaming';
+import type { PageHead } from './head';
+import type { NavigationConfig } from './config';
+
+// ============================================================================
+// Path Param Inference
+// ============================================================================
+
+/** Split a path pattern into its segments */
+type PathSegments<Path extends string> = Path extends `${infer Head}/${infer Rest}`
+  ? Head | PathSegments<Rest>
+  : Path;
+
+/** Drop a Hono regex constraint (e.g., `id{[0-9]+}` -> `id`) */
+type StripConstraint<S extends string> = S extends `${infer Name}{${string}` ? Name : S;
+
+type RequiredParamName<S extends string> = S extends `:${string}?`
+  ? never
+  : S extends `:${infer Name}`
+    ? StripConstraint<Name>
+    : never;
+
+type OptionalParamName<S extends string> = S extends `:${infer Name}?`
+  ? StripConstraint<Name>
+  : never;
+
+/**
+ * Path parameters inferred from a route pattern
+ *
+ * @example
+ * type P = PathParams<'/posts/:slug/:page?'>;
+ * // { slug: string; page?: string }
+ */
+export type PathParams<Path extends string> = string extends Path
+  ? Record<string, string>
+  : {
+      [K in RequiredParamName<PathSegments<Path>>]: string;
+    } & {
+      [K in OptionalParamName<PathSegments<Path>>]?: string;
+    };
 
 // ============================================================================
 // Core Types
 // ============================================================================
 
-export interface RouteParams {
+export interface RouteParams<P = Record<string, string>> {
   /** Path parameters (e.g., [['id', '123']]) */
   params: [string, string][];
   /** Query parameters */
   query: [string, string][];
   /** Full path */
   path: string;
+  /** Path parameters keyed by name (typed from the route pattern) */
+  values: P;
   /** Get a path parameter by name */
   get_param?: (name: string) => string | undefined;
   /** Get a query parameter by name */
   get_query?: (name: string) => string | undefined;
 }
 
-export interface PageProps {
+export interface PageProps<P = Record<string, string>, Data = undefined> {
   /** Hono context */
   ctx: Context;
   /** Route parameters */
-  params: RouteParams;
+  params: RouteParams<P>;
   /** Whether this is a fragment request (CSR navigation) */
   is_fragment: boolean;
+  /** Result of the route loader (undefined when the route has none) */
+  data: Data;
+  /**
+   * Defer a section: returns placeholder HTML that is filled in once the
+   * content resolves (streamed out of order when the page streams)
+   */
+  defer: DeferFn;
+  /** Failed action submission being re-rendered (see `SolRoutes.Action`) */
+  action?: ActionState;
+  /** Negotiated locale, set when the page varies on locale (see `VarySpec`) */
+  locale?: string;
+}
+
+/** Field errors and submitted values of a rejected form action */
+export interface ActionState {
+  /** Error messages keyed by field name */
+  errors: Record<string, string>;
+  /** Submitted string values keyed by field name, for refilling the form */
+  values: Record<string, string>;
+}
+
+export interface ActionProps<P = Record<string, string>, Input = FormData> extends PageProps<P> {
+  /** Raw submitted form */
+  form: FormData;
+  /** Validated input (the raw form when the action has no validator) */
+  input: Input;
 }
 
 // ============================================================================
 // Handler Types
 // ============================================================================
 
+/**
+ * Function type whose parameters are checked bivariantly (like methods), so
+ * a route with typed params and data still fits the untyped `SolRoute` union
+ */
+type Bivariant<Args extends unknown[], R> = { fn(...args: Args): R }['fn'];
+
 /** Page handler - returns HTML string */
-export type PageHandler = (props: PageProps) => string | Promise<string>;
+export type PageHandler<P = Record<string, string>, Data = undefined> = Bivariant<
+  [props: PageProps<P, Data>],
+  string | Promise<string>
+>;
+
+/** Page loader - runs before the handler, its result becomes `props.data` */
+export type PageLoader<P = Record<string, string>, Data = unknown> = Bivariant<
+  [props: PageProps<P>],
+  Data | Promise<Data>
+>;
 
 /** Layout handler - wraps children with layout HTML */
-export type LayoutHandler = (props: PageProps, children: string) => string | Promise<string>;
+export type LayoutHandler<Data = undefined> = Bivariant<
+  [props: PageProps<Record<string, string>, Data>, children: string],
+  string | Promise<string>
+>;
+
+/** Layout loader - runs in parallel with the page loader, its result becomes `props.data` */
+export type LayoutLoader<Data = unknown> = (props: PageProps) => Data | Promise<Data>;
+
+/** Action validator - turns the submitted form into input or field errors */
+export type ActionValidator<Input> = (
+  form: FormData
+) =>
+  | { data: Input }
+  | { errors: Record<string, string> }
+  | Promise<{ data: Input } | { errors: Record<string, string> }>;
+
+/**
+ * Action result
+ * - `redirect`: Post/Redirect/Get to the given location (303 by default)
+ * - `errors`: re-render the action's page with field errors (422)
+ * - `Response`: returned as-is
+ */
+export type ActionResult =
+  | { redirect: string; status?: 301 | 302 | 303 | 307 | 308 }
+  | { errors: Record<string, string> }
+  | Response;
+
+/** Action handler - handles a form submission */
+export type ActionHandler<P = Record<string, string>, Input = FormData> = Bivariant<
+  [props: ActionProps<P, Input>],
+  ActionResult | Promise<ActionResult>
+>;
 
 /** API handler - returns JSON-serializable data */
 export type ApiHandler = (props: PageProps) => unknown | Promise<unknown>;
 
+/** Props of an error boundary */
+export interface ErrorBoundaryProps extends PageProps {
+  /** Thrown value */
+  error: unknown;
+  /** Response status: the error's `status` when it is 4xx/5xx, else 500 */
+  status: number;
+}
+
+/** Error boundary handler - returns HTML rendered inside the enclosing layouts */
+export type ErrorBoundaryHandler = (props: ErrorBoundaryProps) => string | Promise<string>;
+
 /** Middleware function */
 export type Middleware = (ctx: Context, next: () => Promise<Response>) => Promise<Response>;
 
@@ -57,22 +182,70 @@ export type SolRoute =
   | LayoutRoute
   | GetRoute
   | PostRoute
+  | ActionRoute
+  | NotFoundRoute
+  | ErrorBoundaryRoute
   | WithMiddlewareRoute;
 
-export interface PageRoute {
+/**
+ * Request inputs an ISR entry varies on
+ *
+ * Each declared input becomes part of the cache key, so one route can
+ * cache a bucket per locale or A/B cohort. The page must not read any
+ * other per-request input.
+ */
+export interface VarySpec {
+  /** Request header names */
+  headers?: string[];
+  /** Cookie names */
+  cookies?: string[];
+  /**
+   * Vary on Accept-Language: `true` buckets by primary language
+   * (`en-US` -> `en`), a list picks the best supported locale
+   * (falling back to the first entry)
+   */
+  locale?: true | string[];
+  /**
+   * Query params kept in the key, in sorted order; all others (e.g.
+   * `utm_*` tracking params) are dropped. Defaults to the full query.
+   */
+  query?: string[];
+}
+
+export interface PageRoute<P = Record<string, string>, Data = unknown> {
   type: 'page';
   path: string;
-  handler: PageHandler;
+  loader?: PageLoader<P, Data>;
+  handler: PageHandler<P, Data>;
   title: string;
   meta?: [string, string][];
+  /**
+   * Structured head tags (escaped, overriding matching `defaultHead` tags).
+   * A function receives the loader data.
+   */
+  head?: PageHead | Bivariant<[props: PageProps<P, Data>], PageHead>;
   revalidate?: number;
   cache?: 'always-fetch' | 'stale-while-revalidate';
+  /**
+   * Stream the document: the page is sent once loaders have rendered (so
+   * errors keep their status), then deferred sections out of order.
+   * Put slow data in `defer()` to keep it off the first byte.
+   */
+  streaming?: boolean;
+  /** ISR cache tags, purged via `POST /api/revalidate` with `{ tag }` */
+  tags?: string[] | Bivariant<[props: PageProps<P>], string[]>;
+  /**
+   * Request inputs the ISR cache key varies on. Pages inside
+   * `WithMiddleware` are only cached when this is declared.
+   */
+  vary?: VarySpec;
 }
 
-export interface LayoutRoute {
+export interface LayoutRoute<Data = unknown> {
   type: 'layout';
   segment: string;
-  layout: LayoutHandler;
+  loader?: LayoutLoader<Data>;
+  layout: LayoutHandler<Data>;
   children: SolRoute[];
 }
 
@@ -88,6 +261,31 @@ export interface PostRoute {
   handler: ApiHandler;
 }
 
+export interface ActionRoute<P = Record<string, string>, Input = unknown> {
+  type: 'action';
+  path: string;
+  validate?: ActionValidator<unknown>;
+  handler: ActionHandler<P, Input>;
+  /**
+   * Page re-rendered with `props.action` when the submission is rejected.
+   * Without one, rejections answer the `ActionState` as 422 JSON, which
+   * sol-nav dispatches as a `sol:action-error` event.
+   */
+  page?: PageRoute<P, unknown>;
+}
+
+export interface NotFoundRoute {
+  type: 'notFound';
+  title: string;
+  handler: PageHandler;
+}
+
+export interface ErrorBoundaryRoute {
+  type: 'errorBoundary';
+  title: string;
+  handler: ErrorBoundaryHandler;
+}
+
 export interface WithMiddlewareRoute {
   type: 'withMiddleware';
   middleware: Middleware[];
@@ -101,27 +299,47 @@ export interface WithMiddlewareRoute {
 export const SolRoutes = {
   /**
    * Define a page route
+   *
+   * Path params are inferred from `path`, and the optional `loader`
+   * result is passed to `handler` as `props.data`.
+   *
+   * @example
+   * SolRoutes.Page({
+   *   path: '/posts/:slug',
+   *   title: 'Post',
+   *   loader: ({ params }) => getPost(params.values.slug),
+   *   handler: ({ data }) => renderToString(h1({}, [data.title])),
+   * });
    */
-  Page: (opts: {
-    path: string;
-    handler: PageHandler;
+  Page: <Path extends string, Data = undefined>(opts: {
+    path: Path;
+    loader?: PageLoader<PathParams<Path>, Data>;
+    handler: PageHandler<PathParams<Path>, Data>;
     title: string;
     meta?: [string, string][];
+    head?: PageHead | ((props: PageProps<PathParams<Path>, Data>) => PageHead);
     revalidate?: number;
     cache?: 'always-fetch' | 'stale-while-revalidate';
-  }): PageRoute => ({
+    streaming?: boolean;
+    tags?: string[] | ((props: PageProps<PathParams<Path>>) => string[]);
+    vary?: VarySpec;
+  }): PageRoute<PathParams<Path>, Data> => ({
     type: 'page',
     ...opts,
   }),
 
   /**
    * Define a layout wrapper
+   *
+   * Loaders of every layout in the matched chain start in parallel with
+   * the page loader; the result is passed to `layout` as `props.data`.
    */
-  Layout: (opts: {
+  Layout: <Data = undefined>(opts: {
     segment: string;
-    layout: LayoutHandler;
+    loader?: LayoutLoader<Data>;
+    layout: LayoutHandler<Data>;
     children: SolRoute[];
-  }): LayoutRoute => ({
+  }): LayoutRoute<Data> => ({
     type: 'layout',
     ...opts,
   }),
@@ -148,6 +366,71 @@ export const SolRoutes = {
     ...opts,
   }),
 
+  /**
+   * Define a form action (POST) with progressive enhancement
+   *
+   * Without JS the browser posts the form and follows the redirect
+   * (PRG), or gets `page` re-rendered with field errors. With sol-nav,
+   * `form[data-sol-form]` submits over fetch and swaps the outlet.
+   *
+   * @example
+   * SolRoutes.Action({
+   *   path: '/signup',
+   *   page: signupPage,
+   *   validate: (form) => {
+   *     const email = String(form.get('email') ?? '');
+   *     return email.includes('@') ? { data: { email } } : { errors: { email: 'Invalid email' } };
+   *   },
+   *   handler: async ({ input }) => {
+   *     await createUser(input.email);
+   *     return { redirect: '/welcome' };
+   *   },
+   * });
+   */
+  Action: <Path extends string, Input = FormData>(opts: {
+    path: Path;
+    validate?: ActionValidator<Input>;
+    // Validators returning `{ data } | { errors }` literals get a normalized
+    // `data?: undefined` on the error branch, which would leak into Input
+    handler: ActionHandler<PathParams<Path>, Exclude<Input, undefined>>;
+    page?: PageRoute<PathParams<Path>, unknown>;
+  }): ActionRoute<PathParams<Path>, Exclude<Input, undefined>> => ({
+    type: 'action',
+    ...opts,
+  }),
+
+  /**
+   * Define the 404 page of the enclosing layout (the whole app at top level)
+   *
+   * Rendered with status 404 inside the enclosing layouts for unmatched GET
+   * requests under the layout's segment, and for pages that throw an error
+   * with `status: 404` (e.g., `new HTTPException(404)`).
+   */
+  NotFound: (opts: {
+    title?: string;
+    handler: PageHandler;
+  }): NotFoundRoute => ({
+    type: 'notFound',
+    title: 'Not Found',
+    ...opts,
+  }),
+
+  /**
+   * Define the error page of the enclosing layout (the whole app at top level)
+   *
+   * When a page, loader or layout below it throws, the nearest boundary is
+   * rendered inside its enclosing layouts with the error's status (500 by
+   * default). If the boundary itself throws, the next one out is tried.
+   */
+  ErrorBoundary: (opts: {
+    title?: string;
+    handler: ErrorBoundaryHandler;
+  }): ErrorBoundaryRoute => ({
+    type: 'errorBoundary',
+    title: 'Error',
+    ...opts,
+  }),
+
   /**
    * Wrap routes with middleware
    */
@@ -171,8 +454,15 @@ export interface RouterConfig {
   defaultTitle?: string;
   /** Default head HTML */
   defaultHead?: string;
-  /** Root HTML template with placeholders */
+  /**
+   * Root HTML template with placeholders
+   *
+   * Put `__LUNA_MAIN__` inside a `data-sol-outlet="main"` element so
+   * sol-nav can swap fragment responses into it.
+   */
   rootTemplate?: string;
+  /** Client navigation options (`viewTransitions` opts sol-nav in) */
+  navigation?: NavigationConfig;
 }
 
 export const DEFAULT_ROOT_TEMPLATE = `<!DOCTYPE html>
@@ -185,6 +475,6 @@ export const DEFAULT_ROOT_TEMPLATE = `<!DOCTYPE html>
   __LUNA_HEAD__
 </head>
 <body>
-  <div id="__sol__">__LUNA_MAIN__</div>
+  <div id="__sol__" data-sol-outlet="main">__LUNA_MAIN__</div>
 </body>
 </html>`;
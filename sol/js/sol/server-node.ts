@@ -0,0 +1,32 @@
+/**
+ * Sol Framework Server Runtime for Node.js
+ *
+ * Same API as `./server-runtime`, except that `registerRoutes` picks the
+ * ISR cache through `SOL_CACHE_ADAPTER` when the config does not set one
+ * (see `createNodeCacheAdapter`). Workers entry points import
+ * `./server-runtime`, so they never include Node built-ins.
+ */
+
+import type { Hono } from 'hono';
+import type { SolRoute } from './routes';
+import { createNodeCacheAdapter } from './cache-node';
+import { registerRoutes as registerRuntimeRoutes, type ISRRouterConfig } from './server-runtime';
+
+export * from './server-runtime';
+
+/**
+ * Register TypeScript routes with a Hono app, using the cache adapter
+ * selected through `SOL_CACHE_ADAPTER` unless `config.cacheAdapter` is set
+ *
+ * An unknown `SOL_CACHE_ADAPTER` throws here, at startup.
+ */
+export function registerRoutes<T extends Hono>(
+  app: T,
+  routes: SolRoute[],
+  config: ISRRouterConfig = {}
+): T {
+  return registerRuntimeRoutes(app, routes, {
+    ...config,
+    cacheAdapter: config.cacheAdapter ?? createNodeCacheAdapter(),
+  });
+}
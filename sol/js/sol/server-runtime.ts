@@ -6,14 +6,21 @@
  */
 
 import type { Context, Hono } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { getCookie } from 'hono/cookie';
 import type {
   SolRoute,
   PageProps,
   RouteParams,
   PageRoute,
+  VarySpec,
   LayoutRoute,
   GetRoute,
   PostRoute,
+  ActionRoute,
+  ActionState,
+  NotFoundRoute,
+  ErrorBoundaryRoute,
   WithMiddlewareRoute,
   Middleware,
   RouterConfig,
@@ -27,25 +34,52 @@ import {
   type CacheAdapter,
   type CloudflareKVNamespace,
 } from './cache';
+import {
+  DeferredSections,
+  createHTMLStream,
+  resolveDeferredInline,
+} from './streaming';
+import { escapeHtml } from './html';
+import { mergeDefaultHead, renderHeadAssets, renderHeadTags, type PageHead } from './head';
 
 // ============================================================================
 // Types
 // ============================================================================
 
 interface CompiledRoute {
-  method: 'GET' | 'POST';
+  /** `NOT_FOUND` routes handle unmatched requests under `path` */
+  method: 'GET' | 'POST' | 'NOT_FOUND';
   path: string;
   handler: (c: Context) => Promise<Response>;
 }
 
+/** A boundary route with the layouts it renders inside */
+interface Boundary<R> {
+  route: R;
+  layouts: LayoutRoute[];
+}
+
+/** Boundaries in scope for a route, nearest last */
+interface RouteBoundaries {
+  notFound: Boundary<NotFoundRoute>[];
+  errors: Boundary<ErrorBoundaryRoute>[];
+}
+
 /** Extended router config with ISR options */
 export interface ISRRouterConfig extends RouterConfig {
   /** Enable ISR caching */
   enableISR?: boolean;
-  /** Cache adapter (auto-detected if not provided) */
+  /**
+   * Cache adapter (auto-detected if not provided)
+   *
+   * On Node.js, `registerRoutes` from `./server-node` selects one through
+   * `SOL_CACHE_ADAPTER=fs|sqlite|memory` when this is not set.
+   */
   cacheAdapter?: CacheAdapter;
   /** Default revalidate time in seconds */
   defaultRevalidate?: number;
+  /** Stream pages by default (see `PageRoute.streaming`) */
+  streaming?: boolean;
 }
 
 /** Cloudflare Workers execution context */
@@ -64,23 +98,52 @@ interface CloudflareEnv {
 // Route Compilation
 // ============================================================================
 
+/**
+ * Matched path params (none in the not-found handler, where Hono throws)
+ */
+function routeParams(c: Context): Record<string, string> {
+  try {
+    return c.req.param() || {};
+  } catch {
+    return {};
+  }
+}
+
 /**
  * Extract route parameters from Hono context
  */
 function extractParams(c: Context): RouteParams {
   const url = new URL(c.req.url);
-  const params: [string, string][] = Object.entries(c.req.param() || {});
+  const params: [string, string][] = Object.entries(routeParams(c));
   const query: [string, string][] = Array.from(url.searchParams.entries());
 
   return {
     params,
     query,
     path: url.pathname,
+    values: Object.fromEntries(params),
     get_param: (name: string) => params.find(([k]) => k === name)?.[1],
     get_query: (name: string) => query.find(([k]) => k === name)?.[1],
   };
 }
 
+/**
+ * Create page props for a request
+ */
+function createPageProps(
+  c: Context,
+  is_fragment: boolean,
+  sections: DeferredSections = new DeferredSections()
+): PageProps {
+  return {
+    ctx: c,
+    params: extractParams(c),
+    is_fragment,
+    data: undefined,
+    defer: sections.defer,
+  };
+}
+
 /**
  * Check if request is a fragment request (CSR navigation)
  */
@@ -89,41 +152,182 @@ function isFragmentRequest(c: Context): boolean {
 }
 
 /**
- * Wrap HTML content in the root template
+ * Serialize loader data for fragment responses
+ *
+ * Emitted as a JSON script so CSR navigations can pick up the data
+ * without a second request. `<`, `>` and `&` are escaped so the payload
+ * cannot close the script element.
  */
-function wrapInTemplate(
-  html: string,
+function serializeLoaderData(data: unknown): string {
+  const json = JSON.stringify(data ?? null)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+  return `<script type="application/json" data-sol-data>${json}</script>`;
+}
+
+/**
+ * Page title with the configured prefix
+ */
+function fullTitle(title: string, config: RouterConfig): string {
+  return config.titlePrefix ? `${config.titlePrefix} | ${title}` : title;
+}
+
+/**
+ * Render the root template with everything but `__LUNA_MAIN__` filled in
+ *
+ * Page head tags go to `__LUNA_META__` when the template has it and after
+ * `defaultHead` otherwise; `defaultHead` tags they override are dropped.
+ */
+function renderShell(
   title: string,
   config: RouterConfig,
-  meta?: [string, string][]
+  meta?: [string, string][],
+  head?: PageHead
 ): string {
   const template = config.rootTemplate || DEFAULT_ROOT_TEMPLATE;
-  const fullTitle = config.titlePrefix
-    ? `${config.titlePrefix} | ${title}`
-    : title;
-
-  // Build meta tags
-  const metaHtml = meta
-    ? meta
-        .map(([name, content]) => `<meta name="${name}" content="${content}">`)
-        .join('\n  ')
+  const pageTags = renderHeadTags(head, meta);
+  // Opts sol-nav in to view transitions
+  const viewTransitions = config.navigation?.viewTransitions
+    ? '<meta name="sol-view-transitions" content="on">'
     : '';
+  const defaultHead = [viewTransitions, mergeDefaultHead(config.defaultHead || '', pageTags)]
+    .filter(Boolean)
+    .join('\n  ');
+  const hasMetaSlot = template.includes('__LUNA_META__');
 
   return template
-    .replace('__LUNA_TITLE__', fullTitle)
-    .replace('__LUNA_HEAD__', config.defaultHead || '')
+    .replace('__LUNA_TITLE__', () => escapeHtml(fullTitle(title, config)))
+    .replace('__LUNA_HEAD__', () =>
+      hasMetaSlot || !pageTags ? defaultHead : [defaultHead, pageTags].filter(Boolean).join('\n  ')
+    )
     .replace('__LUNA_PRELOAD__', '')
-    .replace('__LUNA_MAIN__', html)
-    .replace('__LUNA_META__', metaHtml);
+    .replace('__LUNA_META__', () => pageTags);
+}
+
+/**
+ * Wrap HTML content in the root template
+ */
+function wrapInTemplate(
+  html: string,
+  title: string,
+  config: RouterConfig,
+  meta?: [string, string][],
+  head?: PageHead
+): string {
+  return renderShell(title, config, meta, head).replace('__LUNA_MAIN__', () => html);
+}
+
+/**
+ * Wrap HTML content in the outlet and title templates sol-nav swaps in
+ * on CSR navigation, plus the page's head tags when it has any
+ */
+function wrapInFragment(
+  html: string,
+  title: string,
+  config: RouterConfig,
+  pageTags = ''
+): string {
+  return (
+    `<template data-sol-outlet="main">${html}</template>` +
+    `<template data-sol-title>${escapeHtml(fullTitle(title, config))}</template>` +
+    (pageTags ? renderHeadAssets(pageTags) : '')
+  );
+}
+
+/**
+ * Send rendered HTML, flagging fragments so sol-nav can cache them
+ */
+function sendHtml(c: Context, html: string, status?: ContentfulStatusCode): Response {
+  if (isFragmentRequest(c)) {
+    c.header('X-Sol-Fragment-Response', 'true');
+  }
+  return c.html(html, status);
 }
 
 /**
  * Generate cache key for a page request
+ *
+ * Routes without `vary` key on the path and raw query string. With
+ * `vary`, the query is reduced to its allow-list and the declared
+ * headers, cookies and locale are appended after `#`.
  */
 function generateCacheKey(c: Context, pageRoute: PageRoute): string {
   const url = new URL(c.req.url);
-  // Include path and query params in cache key
-  return `page:${url.pathname}${url.search}`;
+  const vary = pageRoute.vary;
+  if (!vary) {
+    // Include path and query params in cache key
+    return `page:${url.pathname}${url.search}`;
+  }
+
+  const key = `page:${url.pathname}${normalizeQuery(url, vary.query)}`;
+  const parts: string[] = [];
+  for (const name of vary.headers ?? []) {
+    parts.push(`h:${name.toLowerCase()}=${encodeURIComponent(c.req.header(name) ?? '')}`);
+  }
+  for (const name of vary.cookies ?? []) {
+    parts.push(`c:${name}=${encodeURIComponent(getCookie(c, name) ?? '')}`);
+  }
+  if (vary.locale) {
+    parts.push(`l:${encodeURIComponent(negotiateLocale(c, vary.locale))}`);
+  }
+  return parts.length > 0 ? `${key}#${parts.join(';')}` : key;
+}
+
+/**
+ * Keep only allow-listed query params, sorted by name
+ */
+function normalizeQuery(url: URL, allow?: string[]): string {
+  if (!allow) return url.search;
+
+  const kept = new URLSearchParams(
+    Array.from(url.searchParams).filter(([name]) => allow.includes(name))
+  );
+  kept.sort();
+  const search = kept.toString();
+  return search ? `?${search}` : '';
+}
+
+/**
+ * Pick the request locale from Accept-Language (see `VarySpec.locale`)
+ */
+function negotiateLocale(c: Context, locale: true | string[]): string {
+  const preferred = (c.req.header('Accept-Language') ?? '')
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.find((param) => param.trim().startsWith('q='));
+      return { tag: tag.toLowerCase(), q: q ? parseFloat(q.trim().slice(2)) : 1 };
+    })
+    .filter(({ tag, q }) => tag && tag !== '*' && q > 0)
+    .sort((a, b) => b.q - a.q)
+    .map(({ tag }) => tag);
+
+  if (locale === true) {
+    return preferred[0]?.split('-')[0] ?? '';
+  }
+
+  for (const tag of preferred) {
+    const exact = locale.find((supported) => supported.toLowerCase() === tag);
+    if (exact) return exact;
+    const language = locale.find(
+      (supported) => supported.toLowerCase().split('-')[0] === tag.split('-')[0]
+    );
+    if (language) return language;
+  }
+  return locale[0] ?? '';
+}
+
+/**
+ * Request headers a `vary` spec depends on, for the `Vary` response header
+ */
+function varyHeaderNames(vary: VarySpec): string[] {
+  const names = [...(vary.headers ?? [])];
+  if (vary.cookies?.length) names.push('Cookie');
+  if (vary.locale) names.push('Accept-Language');
+  return names;
 }
 
 /**
@@ -135,6 +339,7 @@ function addCacheHeaders(
     revalidate?: number;
     status: 'hit' | 'stale' | 'miss';
     age?: number;
+    vary?: string[];
   }
 ): Response {
   const headers = new Headers(response.headers);
@@ -152,6 +357,9 @@ function addCacheHeaders(
       `public, s-maxage=${options.revalidate}, stale-while-revalidate=${options.revalidate * 2}`
     );
   }
+  if (options.vary?.length) {
+    headers.set('Vary', options.vary.join(', '));
+  }
 
   return new Response(response.body, {
     status: response.status,
@@ -160,6 +368,299 @@ function addCacheHeaders(
   });
 }
 
+/**
+ * Start the page loader and every layout loader at once
+ *
+ * Resolves to `[pageData, ...layoutData]`, so layout data does not
+ * waterfall behind page data.
+ */
+function loadData(
+  pageRoute: PageRoute,
+  props: PageProps,
+  layouts: LayoutRoute[]
+): Promise<unknown[]> {
+  return Promise.all([
+    pageRoute.loader?.(props),
+    ...layouts.map((layout) => layout.loader?.(props)),
+  ]);
+}
+
+/**
+ * Wrap content in layouts from innermost to outermost
+ */
+async function applyLayouts(
+  html: string,
+  props: PageProps,
+  layouts: LayoutRoute[],
+  layoutData: unknown[]
+): Promise<string> {
+  for (let i = layouts.length - 1; i >= 0; i--) {
+    html = await layouts[i].layout({ ...props, data: layoutData[i] }, html);
+  }
+  return html;
+}
+
+/**
+ * Render page content through its handler and layouts
+ *
+ * Deferred sections are left as placeholders.
+ */
+async function renderContent(
+  pageRoute: PageRoute,
+  props: PageProps,
+  layouts: LayoutRoute[],
+  loaded: Promise<unknown[]>
+): Promise<string> {
+  const [data, ...layoutData] = await loaded;
+  let html = await pageRoute.handler({ ...props, data });
+  html = await applyLayouts(html, props, layouts, layoutData);
+
+  if (props.is_fragment && pageRoute.loader) {
+    html += serializeLoaderData(data);
+  }
+  return html;
+}
+
+/**
+ * Resolve the structured head, calling it with loader data when it is a function
+ */
+async function resolveHead(
+  pageRoute: PageRoute,
+  props: PageProps,
+  loaded: Promise<unknown[]>
+): Promise<PageHead | undefined> {
+  if (typeof pageRoute.head !== 'function') return pageRoute.head;
+  const [data] = await loaded;
+  return pageRoute.head({ ...props, data });
+}
+
+/**
+ * Render a page to a string, waiting for deferred sections
+ *
+ * Returns the layout-wrapped content in outlet templates for fragment
+ * requests and the full document otherwise.
+ */
+async function renderPage(
+  pageRoute: PageRoute,
+  props: PageProps,
+  layouts: LayoutRoute[],
+  config: RouterConfig,
+  sections: DeferredSections
+): Promise<string> {
+  const loaded = loadData(pageRoute, props, layouts);
+  const html = await resolveDeferredInline(
+    await renderContent(pageRoute, props, layouts, loaded),
+    sections
+  );
+  const head = await resolveHead(pageRoute, props, loaded);
+
+  // For fragment requests, return just the content
+  if (props.is_fragment) {
+    return wrapInFragment(html, pageRoute.title, config, renderHeadTags(head, pageRoute.meta));
+  }
+
+  // Wrap in full HTML template
+  return wrapInTemplate(html, pageRoute.title, config, pageRoute.meta, head);
+}
+
+/**
+ * Stream a full page
+ *
+ * The response starts once loaders and handlers have rendered, so a
+ * failing page still answers with its boundary's status. Deferred
+ * sections then stream out of order after the body as they resolve
+ * (their failures render the section's error/fallback HTML).
+ */
+async function streamPage(
+  c: Context,
+  pageRoute: PageRoute,
+  props: PageProps,
+  layouts: LayoutRoute[],
+  config: RouterConfig,
+  sections: DeferredSections
+): Promise<Response> {
+  const loaded = loadData(pageRoute, props, layouts);
+  const [html, head] = await Promise.all([
+    renderContent(pageRoute, props, layouts, loaded),
+    resolveHead(pageRoute, props, loaded),
+  ]);
+  const [start, end = ''] = renderShell(pageRoute.title, config, pageRoute.meta, head).split(
+    '__LUNA_MAIN__'
+  );
+  const stream = createHTMLStream(start, async () => html, sections, end);
+  c.header('Content-Type', 'text/html; charset=UTF-8');
+  return c.body(stream);
+}
+
+// ============================================================================
+// Error Boundaries
+// ============================================================================
+
+/**
+ * Response status for a thrown value (its `status` when 4xx/5xx)
+ */
+function errorStatus(error: unknown): number {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && status >= 400 && status <= 599 ? status : 500;
+}
+
+/**
+ * Render the nearest boundary that renders without throwing
+ *
+ * Returns the layout-wrapped content and title, or null when every
+ * boundary in the stack failed.
+ */
+async function renderBoundary<R extends NotFoundRoute | ErrorBoundaryRoute>(
+  c: Context,
+  stack: Boundary<R>[],
+  render: (route: R, props: PageProps) => string | Promise<string>
+): Promise<{ html: string; title: string } | null> {
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const { route, layouts } = stack[i];
+    try {
+      const sections = new DeferredSections();
+      const props = createPageProps(c, isFragmentRequest(c), sections);
+      const layoutData = await Promise.all(layouts.map((layout) => layout.loader?.(props)));
+      const html = await applyLayouts(await render(route, props), props, layouts, layoutData);
+      return { html: await resolveDeferredInline(html, sections), title: route.title };
+    } catch {
+      // Try the next boundary out
+    }
+  }
+  return null;
+}
+
+/**
+ * Render the error page for a thrown value
+ *
+ * Errors with status 404 go to the nearest `NotFound` first.
+ */
+async function renderErrorContent(
+  c: Context,
+  error: unknown,
+  boundaries: RouteBoundaries
+): Promise<{ html: string; title: string; status: number } | null> {
+  const status = errorStatus(error);
+  const notFound =
+    status === 404
+      ? await renderBoundary(c, boundaries.notFound, (route, props) => route.handler(props))
+      : null;
+  const page =
+    notFound ??
+    (await renderBoundary(c, boundaries.errors, (route, props) =>
+      route.handler({ ...props, error, status })
+    ));
+  return page && { ...page, status };
+}
+
+/**
+ * Wrap a rendered boundary as a fragment or a full document
+ */
+function renderBoundaryPage(
+  c: Context,
+  page: { html: string; title: string },
+  config: RouterConfig
+): string {
+  return isFragmentRequest(c)
+    ? wrapInFragment(page.html, page.title, config)
+    : wrapInTemplate(page.html, page.title, config);
+}
+
+/**
+ * Respond with the error page for a thrown value, rethrowing without a boundary
+ */
+async function respondWithError(
+  c: Context,
+  error: unknown,
+  boundaries: RouteBoundaries,
+  config: RouterConfig
+): Promise<Response> {
+  const page = await renderErrorContent(c, error, boundaries);
+  if (!page) throw error;
+
+  return sendHtml(c, renderBoundaryPage(c, page, config), page.status as ContentfulStatusCode);
+}
+
+/**
+ * Add the `NotFound` and `ErrorBoundary` routes among `routes` to the scope
+ */
+function collectBoundaries(
+  routes: SolRoute[],
+  layouts: LayoutRoute[],
+  boundaries: RouteBoundaries
+): RouteBoundaries {
+  const notFound = [...boundaries.notFound];
+  const errors = [...boundaries.errors];
+  for (const route of routes) {
+    if (route.type === 'notFound') notFound.push({ route, layouts });
+    if (route.type === 'errorBoundary') errors.push({ route, layouts });
+  }
+  return { notFound, errors };
+}
+
+/**
+ * Path pattern covered by a layout chain (joined segments)
+ */
+function layoutScope(layouts: LayoutRoute[]): string {
+  const segments = layouts.flatMap((layout) => layout.segment.split('/')).filter(Boolean);
+  return `/${segments.join('/')}`;
+}
+
+/**
+ * Compile a scope pattern (e.g., `/users/:id`) to a RegExp matching the
+ * paths under it, whole segments only
+ *
+ * Supports the Hono pattern forms used in segments: `:name`, `:name?`,
+ * `:name{regex}` and `*`.
+ */
+function scopeToRegExp(scope: string): RegExp {
+  const source = scope
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => {
+      if (segment === '*') return '(?:/.*)?';
+      const param = segment.match(/^:[^{?]+(?:\{(.+)\})?(\?)?$/);
+      if (!param) return `/${segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`;
+      const [, constraint, optional] = param;
+      const value = `/(?:${constraint ?? '[^/]+'})`;
+      return optional ? `(?:${value})?` : value;
+    })
+    .join('');
+  return new RegExp(`^${source}(?:/|$)`);
+}
+
+/**
+ * Run middlewares in order, calling `handler` at the end of the chain
+ */
+function runMiddlewares(
+  c: Context,
+  middlewares: Middleware[],
+  handler: () => Promise<Response>
+): Promise<Response> {
+  let idx = 0;
+  const next = async (): Promise<Response> => {
+    if (idx < middlewares.length) {
+      const middleware = middlewares[idx++];
+      return await middleware(c, next);
+    }
+    return handler();
+  };
+  return next();
+}
+
+/**
+ * Collect string fields of a submitted form (files are skipped)
+ */
+function formValues(form: FormData): Record<string, string> {
+  const values: Record<string, string> = {};
+  form.forEach((value, key) => {
+    if (typeof value === 'string') {
+      values[key] = value;
+    }
+  });
+  return values;
+}
+
 /**
  * Compile a single route into Hono handlers
  */
@@ -168,7 +669,8 @@ function compileRoute(
   config: ISRRouterConfig,
   getCacheManager: (c: Context) => ISRCacheManager | null,
   layouts: LayoutRoute[] = [],
-  middlewares: Middleware[] = []
+  middlewares: Middleware[] = [],
+  boundaries: RouteBoundaries = { notFound: [], errors: [] }
 ): CompiledRoute[] {
   const results: CompiledRoute[] = [];
 
@@ -177,52 +679,30 @@ function compileRoute(
       const pageRoute = route as PageRoute;
       const shouldCache = config.enableISR && (pageRoute.revalidate !== undefined || config.defaultRevalidate);
       const revalidateTime = pageRoute.revalidate ?? config.defaultRevalidate;
+      const streaming = pageRoute.streaming ?? config.streaming ?? false;
 
       results.push({
         method: 'GET',
         path: pageRoute.path,
         handler: async (c: Context) => {
-          const props: PageProps = {
-            ctx: c,
-            params: extractParams(c),
-            is_fragment: isFragmentRequest(c),
-          };
+          const sections = new DeferredSections();
+          const props = createPageProps(c, isFragmentRequest(c), sections);
+          if (pageRoute.vary?.locale) {
+            props.locale = negotiateLocale(c, pageRoute.vary.locale);
+          }
 
           // Generate page content
-          const generatePage = async (): Promise<string> => {
-            let html = await pageRoute.handler(props);
-
-            // Apply layouts from innermost to outermost
-            for (let i = layouts.length - 1; i >= 0; i--) {
-              html = await layouts[i].layout(props, html);
-            }
-
-            // For fragment requests, return just the content
-            if (props.is_fragment) {
-              return html;
-            }
+          const generatePage = (): Promise<string> =>
+            renderPage(pageRoute, props, layouts, config, sections);
 
-            // Wrap in full HTML template
-            return wrapInTemplate(html, pageRoute.title, config, pageRoute.meta);
-          };
+          // Stream full documents; fragments and ISR entries need the whole string
+          const respond = async (): Promise<Response> =>
+            streaming && !props.is_fragment
+              ? streamPage(c, pageRoute, props, layouts, config, sections)
+              : sendHtml(c, await generatePage());
 
-          // Apply middlewares
-          const executeWithMiddleware = async (): Promise<Response> => {
-            if (middlewares.length > 0) {
-              let idx = 0;
-              const runMiddleware = async (): Promise<Response> => {
-                if (idx < middlewares.length) {
-                  const middleware = middlewares[idx++];
-                  return await middleware(c, runMiddleware);
-                }
-                // No ISR for middleware-protected routes (might have auth)
-                const html = await generatePage();
-                return c.html(html);
-              };
-              return await runMiddleware();
-            }
-
-            // ISR handling (only for non-middleware routes)
+          // ISR handling
+          const executeWithISR = async (): Promise<Response> => {
             const cacheManager = getCacheManager(c);
             if (shouldCache && cacheManager && !props.is_fragment) {
               const cacheKey = generateCacheKey(c, pageRoute);
@@ -237,8 +717,12 @@ function compileRoute(
                 // executionCtx not available in Node.js - regeneration will be synchronous
               }
 
+              const tags =
+                typeof pageRoute.tags === 'function' ? pageRoute.tags(props) : pageRoute.tags;
+
               const result = await cacheManager.handleISR(cacheKey, generatePage, {
                 revalidate: revalidateTime,
+                tags,
                 waitUntil,
               });
 
@@ -247,15 +731,30 @@ function compileRoute(
                 revalidate: revalidateTime,
                 status: result.status,
                 age: result.age,
+                vary: pageRoute.vary && varyHeaderNames(pageRoute.vary),
               });
             }
 
             // No caching - just render
-            const html = await generatePage();
-            return c.html(html);
+            return respond();
           };
 
-          return executeWithMiddleware();
+          // Apply middlewares
+          const executeWithMiddleware = async (): Promise<Response> => {
+            if (middlewares.length > 0 && !pageRoute.vary) {
+              // No ISR for middleware-protected routes (might have auth)
+              // unless `vary` declares what the page depends on
+              return runMiddlewares(c, middlewares, respond);
+            }
+
+            return runMiddlewares(c, middlewares, executeWithISR);
+          };
+
+          try {
+            return await executeWithMiddleware();
+          } catch (error) {
+            return respondWithError(c, error, boundaries, config);
+          }
         },
       });
       break;
@@ -264,32 +763,52 @@ function compileRoute(
     case 'layout': {
       const layoutRoute = route as LayoutRoute;
       // Add this layout to the stack and compile children
+      const childLayouts = [...layouts, layoutRoute];
+      const childBoundaries = collectBoundaries(layoutRoute.children, childLayouts, boundaries);
       for (const child of layoutRoute.children) {
         results.push(
-          ...compileRoute(child, config, getCacheManager, [...layouts, layoutRoute], middlewares)
+          ...compileRoute(child, config, getCacheManager, childLayouts, middlewares, childBoundaries)
         );
       }
       break;
     }
 
+    case 'notFound': {
+      results.push({
+        method: 'NOT_FOUND',
+        path: layoutScope(layouts),
+        handler: async (c: Context) =>
+          runMiddlewares(c, middlewares, async () => {
+            const page = await renderBoundary(c, boundaries.notFound, (notFound, props) =>
+              notFound.handler(props)
+            );
+            if (!page) return c.text('404 Not Found', 404);
+            return sendHtml(c, renderBoundaryPage(c, page, config), 404);
+          }),
+      });
+      break;
+    }
+
+    case 'errorBoundary':
+      // Collected by the enclosing layout (see collectBoundaries)
+      break;
+
     case 'get': {
       const getRoute = route as GetRoute;
       results.push({
         method: 'GET',
         path: getRoute.path,
         handler: async (c: Context) => {
-          const props: PageProps = {
-            ctx: c,
-            params: extractParams(c),
-            is_fragment: false,
-          };
+          const props = createPageProps(c, false);
 
-          const result = await getRoute.handler(props);
-          // If handler returns a Response, return it directly
-          if (result instanceof Response) {
-            return result;
-          }
-          return c.json(result);
+          return runMiddlewares(c, middlewares, async () => {
+            const result = await getRoute.handler(props);
+            // If handler returns a Response, return it directly
+            if (result instanceof Response) {
+              return result;
+            }
+            return c.json(result);
+          });
         },
       });
       break;
@@ -301,18 +820,75 @@ function compileRoute(
         method: 'POST',
         path: postRoute.path,
         handler: async (c: Context) => {
-          const props: PageProps = {
-            ctx: c,
-            params: extractParams(c),
-            is_fragment: false,
+          const props = createPageProps(c, false);
+
+          return runMiddlewares(c, middlewares, async () => {
+            const result = await postRoute.handler(props);
+            // If handler returns a Response, return it directly
+            if (result instanceof Response) {
+              return result;
+            }
+            return c.json(result);
+          });
+        },
+      });
+      break;
+    }
+
+    case 'action': {
+      const actionRoute = route as ActionRoute;
+      results.push({
+        method: 'POST',
+        path: actionRoute.path,
+        handler: async (c: Context) => {
+          const sections = new DeferredSections();
+          const props = createPageProps(c, isFragmentRequest(c), sections);
+
+          const executeAction = async (): Promise<Response> => {
+            const form = await c.req.formData();
+
+            // Re-render the page with field errors (or report them as JSON)
+            const reject = async (errors: Record<string, string>): Promise<Response> => {
+              const action: ActionState = { errors, values: formValues(form) };
+              if (!actionRoute.page) {
+                return c.json(action, 422);
+              }
+              const html = await renderPage(
+                actionRoute.page,
+                { ...props, action },
+                layouts,
+                config,
+                sections
+              );
+              return sendHtml(c, html, 422);
+            };
+
+            let input: unknown = form;
+            if (actionRoute.validate) {
+              const validation = await actionRoute.validate(form);
+              if ('errors' in validation) {
+                return reject(validation.errors);
+              }
+              input = validation.data;
+            }
+
+            const result = await actionRoute.handler({ ...props, form, input });
+            if (result instanceof Response) {
+              return result;
+            }
+            if ('errors' in result) {
+              return reject(result.errors);
+            }
+            // Post/Redirect/Get - fetch submissions follow the redirect
+            // and keep the X-Sol-Fragment header, so they get a fragment
+            return c.redirect(result.redirect, result.status ?? 303);
           };
 
-          const result = await postRoute.handler(props);
-          // If handler returns a Response, return it directly
-          if (result instanceof Response) {
-            return result;
+          try {
+            return await runMiddlewares(c, middlewares, executeAction);
+          } catch (error) {
+            return respondWithError(c, error, boundaries, config);
           }
-          return c.json(result);
         },
       });
       break;
@@ -321,12 +897,17 @@ function compileRoute(
     case 'withMiddleware': {
       const mwRoute = route as WithMiddlewareRoute;
       // Add middlewares to the stack and compile children
+      const childBoundaries = collectBoundaries(mwRoute.children, layouts, boundaries);
       for (const child of mwRoute.children) {
         results.push(
-          ...compileRoute(child, config, getCacheManager, layouts, [
-            ...middlewares,
-            ...mwRoute.middleware,
-          ])
+          ...compileRoute(
+            child,
+            config,
+            getCacheManager,
+            layouts,
+            [...middlewares, ...mwRoute.middleware],
+            childBoundaries
+          )
         );
       }
       break;
@@ -345,8 +926,9 @@ function compileRoutes(
   getCacheManager: (c: Context) => ISRCacheManager | null
 ): CompiledRoute[] {
   const results: CompiledRoute[] = [];
+  const boundaries = collectBoundaries(routes, [], { notFound: [], errors: [] });
   for (const route of routes) {
-    results.push(...compileRoute(route, config, getCacheManager));
+    results.push(...compileRoute(route, config, getCacheManager, [], [], boundaries));
   }
   return results;
 }
@@ -354,7 +936,10 @@ function compileRoutes(
 /**
  * Create cache adapter based on environment
  */
-function createCacheAdapter(config: ISRRouterConfig, env?: CloudflareEnv): CacheAdapter {
+function createCacheAdapter(
+  config: ISRRouterConfig,
+  env?: CloudflareEnv
+): CacheAdapter {
   // Use provided adapter
   if (config.cacheAdapter) {
     return config.cacheAdapter;
@@ -385,6 +970,10 @@ function createCacheAdapter(config: ISRRouterConfig, env?: CloudflareEnv): Cache
 /**
  * Register TypeScript routes with a Hono app
  *
+ * When the routes declare a `SolRoutes.NotFound`, this installs the app's
+ * `notFound` handler, replacing one registered before. Unmatched requests
+ * outside every NotFound scope get a plain 404.
+ *
  * @param app - Hono application instance
  * @param routes - Array of SolRoute definitions
  * @param config - Router configuration including ISR options
@@ -394,15 +983,29 @@ export function registerRoutes<T extends Hono>(
   routes: SolRoute[],
   config: ISRRouterConfig = {}
 ): T {
-  // For Cloudflare Workers, we need to create cache manager per-request
+  // One manager per backing store, so concurrent requests share in-flight renders
+  const managers = new WeakMap<object, ISRCacheManager>();
+  let defaultManager: ISRCacheManager | null = null;
+
+  // For Cloudflare Workers, the store is resolved per-request
   // because env bindings are only available at request time
   const getCacheManager = (c: Context): ISRCacheManager | null => {
     if (!config.enableISR) return null;
 
     // Try to get KV binding from Hono context (Cloudflare Workers)
     const env = c.env as CloudflareEnv | undefined;
-    const adapter = createCacheAdapter(config, env);
-    return new ISRCacheManager(adapter);
+    const store = config.cacheAdapter ?? env?.SOL_CACHE;
+    if (!store) {
+      defaultManager ??= new ISRCacheManager(createCacheAdapter(config, env));
+      return defaultManager;
+    }
+
+    let manager = managers.get(store);
+    if (!manager) {
+      manager = new ISRCacheManager(createCacheAdapter(config, env));
+      managers.set(store, manager);
+    }
+    return manager;
   };
 
   const compiled = compileRoutes(routes, config, getCacheManager);
@@ -418,6 +1021,21 @@ export function registerRoutes<T extends Hono>(
     }
   }
 
+  // Unmatched GET requests render the NotFound of the most specific scope
+  const notFoundRoutes = compiled
+    .filter((route) => route.method === 'NOT_FOUND')
+    .sort((a, b) => b.path.length - a.path.length)
+    .map((route) => ({ route, scope: scopeToRegExp(route.path) }));
+  if (notFoundRoutes.length > 0) {
+    app.notFound((c) => {
+      const found =
+        c.req.method === 'GET' || c.req.method === 'HEAD'
+          ? notFoundRoutes.find(({ scope }) => scope.test(c.req.path))
+          : undefined;
+      return found ? found.route.handler(c) : c.text('404 Not Found', 404);
+    });
+  }
+
   return app;
 }
 
@@ -472,7 +1090,11 @@ export async function createApp(
 /**
  * Middleware to add ISR cache invalidation API
  *
- * Adds POST /api/revalidate endpoint for on-demand revalidation
+ * Adds POST /api/revalidate endpoint for on-demand revalidation:
+ * - `{ path: '/blog/hello' }` purges the page and its query variants
+ * - `{ path: '/blog/*' }` purges by glob (`*` within a segment, `**` across)
+ * - `{ prefix: '/blog/' }` purges every page under a path prefix
+ * - `{ tag: 'post:hello' }` purges every page tagged via `PageRoute.tags`
  */
 export function revalidateMiddleware(
   cacheManager: ISRCacheManager
@@ -480,19 +1102,30 @@ export function revalidateMiddleware(
   return async (c, next) => {
     if (c.req.method === 'POST' && c.req.path === '/api/revalidate') {
       try {
-        const body = await c.req.json<{ path?: string; tag?: string }>();
+        const body = await c.req.json<{ path?: string; prefix?: string; tag?: string }>();
 
         if (body.path) {
-          await cacheManager.delete(`page:${body.path}`);
+          if (body.path.includes('*')) {
+            await cacheManager.invalidateGlob(`page:${body.path}`);
+          } else {
+            await cacheManager.delete(`page:${body.path}`);
+            await cacheManager.invalidatePrefix(`page:${body.path}?`);
+            await cacheManager.invalidatePrefix(`page:${body.path}#`);
+          }
           return c.json({ revalidated: true, path: body.path });
         }
 
+        if (body.prefix) {
+          await cacheManager.invalidatePrefix(`page:${body.prefix}`);
+          return c.json({ revalidated: true, prefix: body.prefix });
+        }
+
         if (body.tag) {
           await cacheManager.invalidateTag(body.tag);
           return c.json({ revalidated: true, tag: body.tag });
         }
 
-        return c.json({ error: 'Provide path or tag to revalidate' }, 400);
+        return c.json({ error: 'Provide path, prefix or tag to revalidate' }, 400);
       } catch (e) {
         return c.json({ error: 'Invalid request' }, 400);
       }
@@ -502,5 +1135,5 @@ export function revalidateMiddleware(
   };
 }
 
-export { extractParams, isFragmentRequest, wrapInTemplate };
+export { extractParams, isFragmentRequest, serializeLoaderData, wrapInTemplate };
 export type { ISRRouterConfig, CloudflareEnv, ExecutionContext };
@@ -0,0 +1,196 @@
+/**
+ * Sol Framework Streaming SSR for TypeScript
+ *
+ * Deferred page sections render a placeholder first and are filled in by
+ * out-of-order chunks once their content resolves. The markup matches
+ * Luna's stream renderer (`<div id="A:n">` placeholders replaced by
+ * `<template id="T:n">` chunks), so both runtimes share one protocol.
+ * Sections with a `boundary` id use the comment anchors of Luna's client
+ * `Suspense` instead (`<!--suspense:id-->...<!--/suspense:id-->`).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DeferOptions {
+  /** HTML shown until the content resolves */
+  fallback?: string;
+  /** HTML shown when the content rejects (defaults to the fallback) */
+  error?: (error: unknown) => string;
+  /**
+   * Suspense boundary id: anchor the section with comments matching Luna's
+   * `Suspense({ id })` instead of a `<div>` (valid inside tables and lists)
+   */
+  boundary?: string;
+}
+
+/** Register a deferred section and return its placeholder HTML */
+export type DeferFn = (
+  content: Promise<string> | (() => string | Promise<string>),
+  options?: DeferOptions
+) => string;
+
+interface DeferredSection {
+  id: number;
+  placeholder: string;
+  boundary?: string;
+  /** Settled HTML (rejections are already mapped to error/fallback HTML) */
+  html: Promise<string>;
+}
+
+// ============================================================================
+// Deferred Sections
+// ============================================================================
+
+/**
+ * Per-request registry of deferred sections
+ */
+export class DeferredSections {
+  private queue: DeferredSection[] = [];
+  private nextId = 0;
+
+  defer: DeferFn = (content, options = {}) => {
+    const id = this.nextId++;
+    const fallback = options.fallback ?? '';
+    const { boundary } = options;
+    const placeholder =
+      boundary === undefined
+        ? `<div id="A:${id}">${fallback}</div>`
+        : renderSuspenseAnchors(boundary, fallback);
+
+    // Start the work right away; sync throws become rejections
+    const html = new Promise<string>((resolve) =>
+      resolve(typeof content === 'function' ? content() : content)
+    ).catch((error: unknown) => (options.error ? options.error(error) : fallback));
+
+    this.queue.push({ id, placeholder, boundary, html });
+    return placeholder;
+  };
+
+  /** Take the sections registered since the last call */
+  take(): DeferredSection[] {
+    const taken = this.queue;
+    this.queue = [];
+    return taken;
+  }
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Wrap HTML in the comment anchors of a Suspense boundary
+ */
+export function renderSuspenseAnchors(boundary: string, html: string): string {
+  // Ids end up in comments and script strings
+  if (!/^[A-Za-z0-9_]+(-[A-Za-z0-9_]+)*$/.test(boundary)) {
+    throw new Error(`Invalid Suspense boundary id "${boundary}" (use letters, digits, _ and single -)`);
+  }
+  return `<!--suspense:${boundary}-->${html}<!--/suspense:${boundary}-->`;
+}
+
+/**
+ * Render the chunk that swaps a placeholder for its resolved content
+ *
+ * Suspense boundaries keep their anchors; only the nodes between them are
+ * replaced.
+ */
+export function renderReplacementChunk(id: number, html: string, boundary?: string): string {
+  const template = `<template id="T:${id}">${html}</template>`;
+  if (boundary === undefined) {
+    return (
+      template +
+      `<script>(function(){var t=document.getElementById('T:${id}'),p=document.getElementById('A:${id}');if(t&&p){p.replaceWith(t.content);t.remove();}})()</script>`
+    );
+  }
+  return (
+    template +
+    `<script>(function(){var t=document.getElementById('T:${id}'),w=document.createTreeWalker(document,128),s,n;while((n=w.nextNode())&&n.data!=='suspense:${boundary}');s=n;if(t&&s){while((n=s.nextSibling)&&!(n.nodeType===8&&n.data==='/suspense:${boundary}'))n.remove();s.after(t.content);t.remove();}})()</script>`
+  );
+}
+
+/**
+ * Wait for every deferred section and inline it into `html`
+ *
+ * Used when the response cannot be streamed (fragments, ISR entries).
+ */
+export async function resolveDeferredInline(
+  html: string,
+  sections: DeferredSections
+): Promise<string> {
+  // Sections may defer nested sections while resolving, whose
+  // placeholders only appear once the parent is inlined
+  let pending = sections.take();
+  while (pending.length > 0) {
+    const resolved = await Promise.all(pending.map((section) => section.html));
+    const missing = pending.filter((section, i) => {
+      if (!html.includes(section.placeholder)) return true;
+      html = html.replace(section.placeholder, () =>
+        section.boundary === undefined
+          ? resolved[i]
+          : renderSuspenseAnchors(section.boundary, resolved[i])
+      );
+      return false;
+    });
+    const added = sections.take();
+    if (missing.length === pending.length && added.length === 0) break;
+    pending = [...missing, ...added];
+  }
+  return html;
+}
+
+/**
+ * Create a streamed HTML body
+ *
+ * `head` is flushed before `renderBody` starts, then the body, then each
+ * deferred section in completion order, then `tail`. Both may be promises
+ * (e.g. a head that depends on loader data). A section is only
+ * flushed once its placeholder has been written, so nested sections never
+ * arrive before their parent.
+ */
+export function createHTMLStream(
+  head: string | Promise<string>,
+  renderBody: () => Promise<string>,
+  sections: DeferredSections,
+  tail: string | Promise<string>
+): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      const waiting: DeferredSection[] = [];
+      const inflight = new Map<number, Promise<[DeferredSection, string]>>();
+
+      const write = (chunk: string) => {
+        controller.enqueue(encoder.encode(chunk));
+        waiting.push(...sections.take());
+        for (let i = waiting.length - 1; i >= 0; i--) {
+          const section = waiting[i];
+          if (chunk.includes(section.placeholder)) {
+            waiting.splice(i, 1);
+            inflight.set(
+              section.id,
+              section.html.then((html): [DeferredSection, string] => [section, html])
+            );
+          }
+        }
+      };
+
+      try {
+        const [headHtml, tailHtml] = await Promise.all([head, tail]);
+        write(headHtml);
+        write(await renderBody());
+        while (inflight.size > 0) {
+          const [section, html] = await Promise.race(inflight.values());
+          inflight.delete(section.id);
+          write(renderReplacementChunk(section.id, html, section.boundary));
+        }
+        write(tailHtml);
+        controller.close();
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+}
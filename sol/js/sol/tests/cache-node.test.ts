@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createRequire } from 'node:module';
+import { Hono } from 'hono';
+import {
+  FileSystemCacheAdapter,
+  SqliteCacheAdapter,
+  createNodeCacheAdapter,
+} from '../cache-node';
+import { MemoryCacheAdapter, type CacheAdapter } from '../cache';
+import { SolRoutes } from '../routes';
+import { registerRoutes } from '../server-node';
+
+const hasSqlite = (() => {
+  try {
+    createRequire(import.meta.url)('node:sqlite');
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'sol-cache-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const adapters: [string, boolean, () => CacheAdapter & { close?: () => Promise<void> }][] = [
+  ['FileSystemCacheAdapter', true, () => new FileSystemCacheAdapter(join(dir, 'cache'))],
+  ['SqliteCacheAdapter', hasSqlite, () => new SqliteCacheAdapter(join(dir, 'cache.db'))],
+];
+
+describe.each(adapters)('%s', (_name, supported, create) => {
+  let adapter: ReturnType<typeof create>;
+
+  beforeEach(() => {
+    adapter = create();
+  });
+
+  afterEach(async () => {
+    await adapter.close?.();
+  });
+
+  it.runIf(supported)('should store and retrieve values', async () => {
+    const before = Date.now();
+    await adapter.set('page:/a?x=1', '<html>a</html>', { revalidate: 60 });
+    const entry = await adapter.get('page:/a?x=1');
+
+    expect(entry!.value).toBe('<html>a</html>');
+    expect(entry!.generatedAt).toBeGreaterThanOrEqual(before);
+    expect(entry!.revalidateAfter).toBeGreaterThan(before + 59000);
+  });
+
+  it.runIf(supported)('should return null for missing keys', async () => {
+    expect(await adapter.get('nonexistent')).toBeNull();
+  });
+
+  it.runIf(supported)('should overwrite and delete entries', async () => {
+    await adapter.set('key', 'v1');
+    await adapter.set('key', 'v2');
+    expect((await adapter.get('key'))!.value).toBe('v2');
+
+    await adapter.delete('key');
+    expect(await adapter.get('key')).toBeNull();
+  });
+
+  it.runIf(supported)('should persist across instances', async () => {
+    await adapter.set('key', 'value');
+    await adapter.close?.();
+
+    const reopened = create();
+    expect((await reopened.get('key'))!.value).toBe('value');
+    await reopened.close?.();
+  });
+
+  it.runIf(supported)('should invalidate entries by tag', async () => {
+    await adapter.set('page:/posts/a', 'a', { tags: ['post:a', 'posts'] });
+    await adapter.set('page:/posts/b', 'b', { tags: ['post:b', 'posts'] });
+
+    await adapter.invalidateTag!('post:a');
+    expect(await adapter.get('page:/posts/a')).toBeNull();
+    expect(await adapter.get('page:/posts/b')).not.toBeNull();
+
+    await adapter.invalidateTag!('posts');
+    expect(await adapter.get('page:/posts/b')).toBeNull();
+  });
+
+  it.runIf(supported)('should drop old tags when an entry is replaced', async () => {
+    await adapter.set('key', 'v1', { tags: ['old'] });
+    await adapter.set('key', 'v2', { tags: ['new'] });
+
+    await adapter.invalidateTag!('old');
+    expect((await adapter.get('key'))!.value).toBe('v2');
+  });
+
+  it.runIf(supported)('should list keys by prefix', async () => {
+    await adapter.set('page:/blog/a', 'a');
+    await adapter.set('page:/blog/b', 'b');
+    await adapter.set('page:/about', 'about');
+
+    expect((await adapter.keys!('page:/blog/')).sort()).toEqual(['page:/blog/a', 'page:/blog/b']);
+  });
+
+  it.runIf(supported)('should hold a lock until it is released or expires', async () => {
+    expect(await adapter.acquireLock!('page:/a', 30)).toBe(true);
+    expect(await adapter.acquireLock!('page:/a', 30)).toBe(false);
+
+    await adapter.releaseLock!('page:/a');
+    expect(await adapter.acquireLock!('page:/a', 0)).toBe(true);
+    expect(await adapter.acquireLock!('page:/a', 30)).toBe(true);
+  });
+});
+
+describe('FileSystemCacheAdapter files', () => {
+  it('should not leave temp files behind', async () => {
+    const adapter = new FileSystemCacheAdapter(dir);
+    await adapter.set('key', 'value', { tags: ['t'] });
+
+    const files = await readdir(join(dir, 'entries'));
+    expect(files.some((file) => file.endsWith('.tmp'))).toBe(false);
+    expect(files.filter((file) => file.endsWith('.json'))).toHaveLength(1);
+  });
+});
+
+describe('createNodeCacheAdapter()', () => {
+  it('returns undefined without SOL_CACHE_ADAPTER', () => {
+    expect(createNodeCacheAdapter({})).toBeUndefined();
+  });
+
+  it('selects the adapter by name', () => {
+    expect(createNodeCacheAdapter({ SOL_CACHE_ADAPTER: 'fs', SOL_CACHE_DIR: dir })).toBeInstanceOf(
+      FileSystemCacheAdapter
+    );
+    expect(createNodeCacheAdapter({ SOL_CACHE_ADAPTER: 'sqlite' })).toBeInstanceOf(
+      SqliteCacheAdapter
+    );
+    expect(createNodeCacheAdapter({ SOL_CACHE_ADAPTER: 'memory' })).toBeInstanceOf(
+      MemoryCacheAdapter
+    );
+  });
+
+  it('rejects unknown adapters', () => {
+    expect(() => createNodeCacheAdapter({ SOL_CACHE_ADAPTER: 'redis' })).toThrow(
+      'Unknown SOL_CACHE_ADAPTER'
+    );
+  });
+});
+
+describe('registerRoutes() from server-node', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const page = SolRoutes.Page({
+    path: '/about',
+    title: 'About',
+    revalidate: 60,
+    handler: () => '<p>About</p>',
+  });
+
+  it('caches pages in the adapter selected by SOL_CACHE_ADAPTER', async () => {
+    vi.stubEnv('SOL_CACHE_ADAPTER', 'fs');
+    vi.stubEnv('SOL_CACHE_DIR', dir);
+    const app = registerRoutes(new Hono(), [page], { enableISR: true });
+
+    await app.request('/about');
+
+    expect(await readdir(join(dir, 'entries'))).toHaveLength(2);
+  });
+
+  it('keeps an adapter set in the config', async () => {
+    vi.stubEnv('SOL_CACHE_ADAPTER', 'fs');
+    vi.stubEnv('SOL_CACHE_DIR', dir);
+    const app = registerRoutes(new Hono(), [page], {
+      enableISR: true,
+      cacheAdapter: new MemoryCacheAdapter(),
+    });
+
+    await app.request('/about');
+
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('rejects unknown adapters at startup', () => {
+    vi.stubEnv('SOL_CACHE_ADAPTER', 'redis');
+
+    expect(() => registerRoutes(new Hono(), [page], { enableISR: true })).toThrow(
+      'Unknown SOL_CACHE_ADAPTER'
+    );
+  });
+});
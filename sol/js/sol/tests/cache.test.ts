@@ -1,10 +1,39 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import {
   MemoryCacheAdapter,
+  CloudflareKVAdapter,
   ISRCacheManager,
   type CacheEntry,
+  type CloudflareKVNamespace,
 } from '../cache';
 
+/** In-memory stand-in for a Cloudflare KV namespace */
+function createFakeKV(): CloudflareKVNamespace & { store: Map<string, string> } {
+  const store = new Map<string, string>();
+  const meta = new Map<string, unknown>();
+  return {
+    store,
+    async get(key) {
+      return store.get(key) ?? null;
+    },
+    async put(key, value, options) {
+      store.set(key, value);
+      meta.set(key, options?.metadata ?? null);
+    },
+    async delete(key) {
+      store.delete(key);
+      meta.delete(key);
+    },
+    async getWithMetadata<T>(key: string) {
+      return { value: store.get(key) ?? null, metadata: (meta.get(key) ?? null) as T | null };
+    },
+    async list(options) {
+      const names = Array.from(store.keys()).filter((name) => name.startsWith(options?.prefix ?? ''));
+      return { keys: names.map((name) => ({ name })), list_complete: true };
+    },
+  };
+}
+
 describe('MemoryCacheAdapter', () => {
   let adapter: MemoryCacheAdapter;
 
@@ -91,6 +120,44 @@ describe('MemoryCacheAdapter', () => {
     expect(freshAdapter.stats().size).toBe(0);
   });
 
+  it('should invalidate entries by tag', async () => {
+    await adapter.set('page:/posts/a', 'a', { tags: ['post:a', 'posts'] });
+    await adapter.set('page:/posts/b', 'b', { tags: ['post:b', 'posts'] });
+    await adapter.set('page:/about', 'about');
+
+    await adapter.invalidateTag('post:a');
+    expect(await adapter.get('page:/posts/a')).toBeNull();
+    expect(await adapter.get('page:/posts/b')).not.toBeNull();
+
+    await adapter.invalidateTag('posts');
+    expect(await adapter.get('page:/posts/b')).toBeNull();
+    expect(await adapter.get('page:/about')).not.toBeNull();
+  });
+
+  it('should drop tags of overwritten and evicted entries', async () => {
+    await adapter.set('key0', 'v1', { tags: ['old'] });
+    await adapter.set('key0', 'v2', { tags: ['new'] });
+
+    await adapter.invalidateTag('old');
+    expect((await adapter.get('key0'))!.value).toBe('v2');
+
+    for (let i = 1; i <= 10; i++) {
+      await adapter.set(`key${i}`, `value${i}`);
+    }
+    // key0 was evicted; re-adding it untagged must not be purged by its old tag
+    await adapter.set('key0', 'v3');
+    await adapter.invalidateTag('new');
+    expect((await adapter.get('key0'))!.value).toBe('v3');
+  });
+
+  it('should list keys by prefix', async () => {
+    await adapter.set('page:/blog/a', 'a');
+    await adapter.set('page:/blog/b', 'b');
+    await adapter.set('page:/about', 'about');
+
+    expect((await adapter.keys('page:/blog/')).sort()).toEqual(['page:/blog/a', 'page:/blog/b']);
+  });
+
   it('should report stats', async () => {
     const stats = adapter.stats();
     expect(stats.size).toBe(0);
@@ -237,6 +304,88 @@ describe('ISRCacheManager', () => {
       const cached = await manager.get('key1');
       expect(cached!.html).toBe('<html>regenerated</html>');
     });
+
+    it('should share one render between concurrent misses', async () => {
+      let calls = 0;
+      let finish!: (html: string) => void;
+      const generate = () => {
+        calls++;
+        return new Promise<string>((resolve) => {
+          finish = resolve;
+        });
+      };
+
+      const pending = Array.from({ length: 5 }, () => manager.handleISR('key1', generate));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      finish('<html>once</html>');
+      const results = await Promise.all(pending);
+
+      expect(calls).toBe(1);
+      expect(results.every((r) => r.status === 'miss' && r.html === '<html>once</html>')).toBe(true);
+    });
+
+    it('should render again after a shared miss fails', async () => {
+      await expect(
+        manager.handleISR('key1', async () => {
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+
+      const result = await manager.handleISR('key1', async () => '<html>ok</html>');
+      expect(result.html).toBe('<html>ok</html>');
+    });
+
+    it('should regenerate a stale entry once for concurrent requests', async () => {
+      await adapter.set('key1', '<html>stale</html>', { revalidate: -1 });
+
+      let calls = 0;
+      const background: Promise<unknown>[] = [];
+      const waitUntil = (p: Promise<unknown>) => {
+        background.push(p);
+      };
+      const generate = async () => {
+        calls++;
+        return '<html>regenerated</html>';
+      };
+
+      const results = await Promise.all(
+        Array.from({ length: 5 }, () => manager.handleISR('key1', generate, { waitUntil }))
+      );
+      await Promise.all(background);
+
+      expect(results.every((r) => r.status === 'stale')).toBe(true);
+      expect(calls).toBe(1);
+      expect((await manager.get('key1'))!.html).toBe('<html>regenerated</html>');
+    });
+
+    it('should skip background regeneration while another manager holds the lock', async () => {
+      await adapter.set('key1', '<html>stale</html>', { revalidate: -1 });
+      const other = new ISRCacheManager(adapter);
+
+      let calls = 0;
+      let finish!: () => void;
+      const slow = () => {
+        calls++;
+        return new Promise<string>((resolve) => {
+          finish = () => resolve('<html>new</html>');
+        });
+      };
+
+      const background: Promise<unknown>[] = [];
+      const waitUntil = (p: Promise<unknown>) => {
+        background.push(p);
+      };
+
+      await manager.handleISR('key1', slow, { waitUntil });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await other.handleISR('key1', slow, { waitUntil });
+      await background[1];
+      expect(calls).toBe(1);
+
+      finish();
+      await background[0];
+      expect(await adapter.acquireLock('key1', 30)).toBe(true);
+    });
   });
 
   describe('delete', () => {
@@ -248,3 +397,89 @@ describe('ISRCacheManager', () => {
     });
   });
 });
+
+describe('CloudflareKVAdapter', () => {
+  it('should invalidate entries by tag', async () => {
+    const kv = createFakeKV();
+    const adapter = new CloudflareKVAdapter(kv);
+
+    await adapter.set('page:/posts/a', 'a', { tags: ['post:a'] });
+    await adapter.set('page:/posts/b', 'b', { tags: ['post:b'] });
+
+    await adapter.invalidateTag('post:a');
+    expect(await adapter.get('page:/posts/a')).toBeNull();
+    expect(await adapter.get('page:/posts/b')).not.toBeNull();
+    expect(kv.store.has('__tag:post:a')).toBe(false);
+  });
+
+  it('should list keys without the tag index', async () => {
+    const adapter = new CloudflareKVAdapter(createFakeKV());
+    await adapter.set('page:/a', 'a', { tags: ['t'] });
+
+    expect(await adapter.keys('')).toEqual(['page:/a']);
+  });
+
+  it('should list nothing when the namespace cannot list', async () => {
+    const { list: _list, ...kv } = createFakeKV();
+    const adapter = new CloudflareKVAdapter(kv);
+    await adapter.set('page:/a', 'a');
+
+    expect(await adapter.keys('page:')).toEqual([]);
+  });
+
+  it('should hold a lock until it is released', async () => {
+    const kv = createFakeKV();
+    const adapter = new CloudflareKVAdapter(kv);
+
+    expect(await adapter.acquireLock('page:/a', 30)).toBe(true);
+    expect(await adapter.acquireLock('page:/a', 30)).toBe(false);
+    expect(await adapter.keys('')).toEqual([]);
+
+    await adapter.releaseLock('page:/a');
+    expect(await adapter.acquireLock('page:/a', 30)).toBe(true);
+  });
+});
+
+describe('MemoryCacheAdapter locks', () => {
+  it('should hand out a lock once until it expires', async () => {
+    const adapter = new MemoryCacheAdapter();
+
+    expect(await adapter.acquireLock('key', 30)).toBe(true);
+    expect(await adapter.acquireLock('key', 30)).toBe(false);
+    expect(await adapter.acquireLock('other', 30)).toBe(true);
+
+    expect(await adapter.acquireLock('expired', 0)).toBe(true);
+    expect(await adapter.acquireLock('expired', 30)).toBe(true);
+  });
+});
+
+describe('ISRCacheManager purges', () => {
+  let manager: ISRCacheManager;
+
+  beforeEach(async () => {
+    manager = new ISRCacheManager(new MemoryCacheAdapter());
+    for (const path of ['/blog/a', '/blog/a?page=2', '/blog/b/comments', '/docs/x/y', '/about']) {
+      await manager.set(`page:${path}`, path);
+    }
+  });
+
+  it('should invalidate by prefix', async () => {
+    expect(await manager.invalidatePrefix('page:/blog/')).toBe(3);
+    expect(await manager.get('page:/about')).not.toBeNull();
+  });
+
+  it('should invalidate by glob within a segment', async () => {
+    expect(await manager.invalidateGlob('page:/blog/*')).toBe(2);
+    expect(await manager.get('page:/blog/b/comments')).not.toBeNull();
+  });
+
+  it('should invalidate by glob across segments', async () => {
+    expect(await manager.invalidateGlob('page:/docs/**')).toBe(1);
+    expect(await manager.get('page:/docs/x/y')).toBeNull();
+  });
+
+  it('should count only existing keys for patterns without wildcards', async () => {
+    expect(await manager.invalidateGlob('page:/about')).toBe(1);
+    expect(await manager.invalidateGlob('page:/about')).toBe(0);
+  });
+});
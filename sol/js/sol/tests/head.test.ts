@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { mergeDefaultHead, renderHeadAssets, renderHeadTags } from '../head';
+
+describe('renderHeadTags()', () => {
+  it('renders meta, OpenGraph and Twitter tags', () => {
+    const html = renderHeadTags({
+      meta: { description: 'All posts' },
+      og: { title: 'Posts' },
+      twitter: { card: 'summary' },
+    });
+
+    expect(html).toContain('<meta name="description" content="All posts" data-sol-head>');
+    expect(html).toContain('<meta property="og:title" content="Posts" data-sol-head>');
+    expect(html).toContain('<meta name="twitter:card" content="summary" data-sol-head>');
+  });
+
+  it('escapes attribute values', () => {
+    const html = renderHeadTags(undefined, [['description', '"><script>alert(1)</script>']]);
+
+    expect(html).toBe(
+      '<meta name="description" content="&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;" data-sol-head>'
+    );
+  });
+
+  it('renders canonical, hreflang links and scripts', () => {
+    const html = renderHeadTags({
+      links: [
+        { rel: 'canonical', href: 'https://example.com/posts' },
+        { rel: 'alternate', hreflang: 'ja', href: 'https://example.com/ja/posts' },
+      ],
+      scripts: [{ src: '/analytics.js', defer: true }],
+    });
+
+    expect(html).toContain('<link rel="canonical" href="https://example.com/posts" data-sol-head>');
+    expect(html).toContain(
+      '<link rel="alternate" hreflang="ja" href="https://example.com/ja/posts" data-sol-head>'
+    );
+    expect(html).toContain('<script src="/analytics.js" defer data-sol-head></script>');
+  });
+
+  it('renders JSON-LD that cannot close its script', () => {
+    const html = renderHeadTags({ jsonLd: [{ name: '</script><b>' }, { '@type': 'Blog' }] });
+
+    expect(html).toContain(
+      '<script type="application/ld+json" data-sol-head>{"name":"\\u003c/script\\u003e\\u003cb\\u003e"}</script>'
+    );
+    expect(html).toContain('{"@type":"Blog"}');
+  });
+
+  it('lets structured entries replace legacy meta tuples', () => {
+    const html = renderHeadTags({ meta: { description: 'new' } }, [['description', 'old']]);
+
+    expect(html).toBe('<meta name="description" content="new" data-sol-head>');
+  });
+
+  it('drops unsafe attribute names', () => {
+    const html = renderHeadTags({
+      links: [{ rel: 'icon', href: '/icon.png', ['onload="x"' as 'title']: 'y' }],
+    });
+
+    expect(html).toBe('<link rel="icon" href="/icon.png" data-sol-head>');
+  });
+});
+
+describe('mergeDefaultHead()', () => {
+  it('drops default tags the page overrides', () => {
+    const defaultHead = [
+      '<meta name="description" content="Site">',
+      "<meta property='og:image' content='/default.png'>",
+      '<link rel="canonical" href="/">',
+      '<link rel="stylesheet" href="/app.css">',
+      '<script type="module" src="/app.js"></script>',
+    ].join('\n');
+    const pageTags = renderHeadTags({
+      meta: { description: 'Post' },
+      og: { image: '/post.png' },
+      links: [{ rel: 'canonical', href: '/posts/a' }],
+    });
+
+    const merged = mergeDefaultHead(defaultHead, pageTags);
+
+    expect(merged).not.toContain('content="Site"');
+    expect(merged).not.toContain('/default.png');
+    expect(merged).not.toContain('href="/"');
+    expect(merged).toContain('<link rel="stylesheet" href="/app.css">');
+    expect(merged).toContain('<script type="module" src="/app.js"></script>');
+  });
+
+  it('keeps the default head without page tags', () => {
+    expect(mergeDefaultHead('<meta name="a" content="b">', '')).toBe('<meta name="a" content="b">');
+  });
+});
+
+describe('renderHeadAssets()', () => {
+  it('wraps tags in a head assets template', () => {
+    expect(renderHeadAssets('<meta name="a" content="b" data-sol-head>')).toBe(
+      '<template data-sol-head-assets><meta name="a" content="b" data-sol-head></template>'
+    );
+  });
+});
@@ -118,6 +118,45 @@ describe('SolRoutes DSL', () => {
     });
   });
 
+  describe('Action()', () => {
+    it('creates a form action route', () => {
+      const page = SolRoutes.Page({
+        path: '/signup',
+        handler: async () => '',
+        title: 'Sign up',
+      });
+      const validate = (form: FormData) => ({ data: { email: String(form.get('email')) } });
+      const handler = async () => ({ redirect: '/welcome' });
+      const route = SolRoutes.Action({
+        path: '/signup',
+        page,
+        validate,
+        handler,
+      });
+
+      expect(route.type).toBe('action');
+      expect(route.path).toBe('/signup');
+      expect(route.page).toBe(page);
+      expect(route.validate).toBe(validate);
+      expect(route.handler).toBe(handler);
+    });
+  });
+
+  describe('NotFound() and ErrorBoundary()', () => {
+    it('creates boundary routes with default titles', () => {
+      const notFound = SolRoutes.NotFound({ handler: () => 'missing' });
+      const errorBoundary = SolRoutes.ErrorBoundary({
+        title: 'Oops',
+        handler: ({ status }) => `error ${status}`,
+      });
+
+      expect(notFound.type).toBe('notFound');
+      expect(notFound.title).toBe('Not Found');
+      expect(errorBoundary.type).toBe('errorBoundary');
+      expect(errorBoundary.title).toBe('Oops');
+    });
+  });
+
   describe('WithMiddleware()', () => {
     it('creates a middleware wrapper route', () => {
       const middleware = async (ctx: any, next: () => Promise<Response>) =>
@@ -191,6 +230,32 @@ describe('SolRoutes DSL', () => {
       expect(routes[0].type).toBe('layout');
       expect(routes[1].type).toBe('withMiddleware');
     });
+
+    it('accepts routes with typed params and loader data', () => {
+      const post = SolRoutes.Page({
+        path: '/posts/:slug',
+        title: 'Post',
+        loader: ({ params }) => ({ slug: params.values.slug, views: 1 }),
+        handler: ({ data }) => `<h1>${data.slug} (${data.views})</h1>`,
+        head: ({ data }) => ({ meta: { description: data.slug } }),
+      });
+      const routes: SolRoute[] = [
+        post,
+        SolRoutes.Action({
+          path: '/posts/:slug/like',
+          page: post,
+          handler: ({ params }) => ({ redirect: `/posts/${params.values.slug}` }),
+        }),
+      ];
+
+      SolRoutes.Page({
+        path: '/posts/:slug',
+        title: 'Post',
+        // @ts-expect-error params are still checked against the path
+        handler: ({ params }) => params.values.id,
+      });
+      expect(routes).toHaveLength(2);
+    });
   });
 });
 
@@ -209,5 +274,6 @@ describe('DEFAULT_ROOT_TEMPLATE', () => {
     expect(DEFAULT_ROOT_TEMPLATE).toContain('<head>');
     expect(DEFAULT_ROOT_TEMPLATE).toContain('<body>');
     expect(DEFAULT_ROOT_TEMPLATE).toContain('id="__sol__"');
+    expect(DEFAULT_ROOT_TEMPLATE).toContain('data-sol-outlet="main"');
   });
 });
@@ -0,0 +1,789 @@
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { SolRoutes, type SolRoute } from '../routes';
+import { registerRoutes, revalidateMiddleware, serializeLoaderData } from '../server-runtime';
+import { ISRCacheManager, MemoryCacheAdapter } from '../cache';
+
+function createTestApp(routes: SolRoute[]) {
+  return registerRoutes(new Hono(), routes);
+}
+
+describe('registerRoutes', () => {
+  describe('page loaders', () => {
+    it('passes typed params and loader data to the handler', async () => {
+      const app = createTestApp([
+        SolRoutes.Page({
+          path: '/posts/:slug',
+          title: 'Post',
+          loader: ({ params }) => ({ title: `Post ${params.values.slug}` }),
+          handler: ({ data, params }) =>
+            `<h1>${data.title}</h1><p>${params.values.slug}</p>`,
+        }),
+      ]);
+
+      const res = await app.request('/posts/hello');
+      const html = await res.text();
+
+      expect(res.status).toBe(200);
+      expect(html).toContain('<h1>Post hello</h1><p>hello</p>');
+      expect(html).not.toContain('data-sol-data');
+    });
+
+    it('runs the loader before the handler', async () => {
+      const calls: string[] = [];
+      const app = createTestApp([
+        SolRoutes.Page({
+          path: '/',
+          title: 'Home',
+          loader: async () => {
+            calls.push('loader');
+            return 1;
+          },
+          handler: () => {
+            calls.push('handler');
+            return '';
+          },
+        }),
+      ]);
+
+      await app.request('/');
+      expect(calls).toEqual(['loader', 'handler']);
+    });
+
+    it('serializes loader data on fragment requests', async () => {
+      const app = createTestApp([
+        SolRoutes.Page({
+          path: '/items/:id',
+          title: 'Item',
+          loader: ({ params }) => ({ id: params.values.id }),
+          handler: ({ data }) => `<p>${data.id}</p>`,
+        }),
+      ]);
+
+      const res = await app.request('/items/42', {
+        headers: { 'X-Sol-Fragment': 'true' },
+      });
+      const html = await res.text();
+
+      expect(html).toBe(
+        '<template data-sol-outlet="main"><p>42</p><script type="application/json" data-sol-data>{"id":"42"}</script></template>' +
+          '<template data-sol-title>Item</template>'
+      );
+    });
+
+    it('leaves fragments without a loader untouched', async () => {
+      const app = createTestApp([
+        SolRoutes.Page({ path: '/', title: 'Home', handler: () => '<p>home</p>' }),
+      ]);
+
+      const res = await app.request('/', { headers: { 'X-Sol-Fragment': 'true' } });
+      expect(res.headers.get('X-Sol-Fragment-Response')).toBe('true');
+      expect(await res.text()).toBe(
+        '<template data-sol-outlet="main"><p>home</p></template><template data-sol-title>Home</template>'
+      );
+    });
+  });
+});
+
+describe('layout loaders', () => {
+  it('passes layout data to each layout', async () => {
+    const app = createTestApp([
+      SolRoutes.Layout({
+        segment: '',
+        loader: () => ({ user: 'alice' }),
+        layout: ({ data }, children) => `<header>${data.user}</header>${children}`,
+        children: [
+          SolRoutes.Layout({
+            segment: '/dashboard',
+            loader: async () => 'acme',
+            layout: ({ data }, children) => `<nav>${data}</nav>${children}`,
+            children: [
+              SolRoutes.Page({
+                path: '/dashboard',
+                title: 'Dashboard',
+                loader: () => 3,
+                handler: ({ data }) => `<p>${data} projects</p>`,
+              }),
+            ],
+          }),
+        ],
+      }),
+    ]);
+
+    const res = await app.request('/dashboard', { headers: { 'X-Sol-Fragment': 'true' } });
+
+    expect(await res.text()).toBe(
+      '<template data-sol-outlet="main"><header>alice</header><nav>acme</nav><p>3 projects</p>' +
+        '<script type="application/json" data-sol-data>3</script></template>' +
+        '<template data-sol-title>Dashboard</template>'
+    );
+  });
+
+  it('starts layout and page loaders in parallel', async () => {
+    const started: string[] = [];
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const load = (name: string) => async () => {
+      started.push(name);
+      await gate;
+      return name;
+    };
+
+    const app = createTestApp([
+      SolRoutes.Layout({
+        segment: '',
+        loader: load('root'),
+        layout: (_, children) => children,
+        children: [
+          SolRoutes.Layout({
+            segment: '/org',
+            loader: load('org'),
+            layout: (_, children) => children,
+            children: [
+              SolRoutes.Page({
+                path: '/org',
+                title: 'Org',
+                loader: load('page'),
+                handler: ({ data }) => data,
+              }),
+            ],
+          }),
+        ],
+      }),
+    ]);
+
+    const pending = app.request('/org');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(started.sort()).toEqual(['org', 'page', 'root']);
+    release();
+    expect(await (await pending).text()).toContain('page');
+  });
+});
+
+describe('streaming', () => {
+  it('streams deferred sections after the document head', async () => {
+    const app = createTestApp([
+      SolRoutes.Page({
+        path: '/feed',
+        title: 'Feed',
+        streaming: true,
+        handler: ({ defer }) =>
+          `<h1>Feed</h1>${defer(Promise.resolve('<ul><li>post</li></ul>'), { fallback: 'Loading...' })}`,
+      }),
+    ]);
+
+    const res = await app.request('/feed');
+    const html = await res.text();
+
+    expect(res.headers.get('Content-Type')).toContain('text/html');
+    expect(html.indexOf('<title>Feed</title>')).toBeLessThan(html.indexOf('<h1>Feed</h1>'));
+    expect(html).toContain('<div id="A:0">Loading...</div>');
+    expect(html).toContain('<template id="T:0"><ul><li>post</li></ul></template>');
+    expect(html.trimEnd().endsWith('</html>')).toBe(true);
+  });
+
+  it('inlines deferred sections for fragment requests', async () => {
+    const app = createTestApp([
+      SolRoutes.Page({
+        path: '/feed',
+        title: 'Feed',
+        streaming: true,
+        handler: ({ defer }) => `<h1>Feed</h1>${defer(Promise.resolve('<p>post</p>'))}`,
+      }),
+    ]);
+
+    const res = await app.request('/feed', { headers: { 'X-Sol-Fragment': 'true' } });
+    expect(await res.text()).toBe(
+      '<template data-sol-outlet="main"><h1>Feed</h1><p>post</p></template><template data-sol-title>Feed</template>'
+    );
+  });
+
+  it('inlines deferred sections when streaming is off', async () => {
+    const app = createTestApp([
+      SolRoutes.Page({
+        path: '/',
+        title: 'Home',
+        handler: ({ defer }) => `<p>${defer(async () => 'late $& text')}</p>`,
+      }),
+    ]);
+
+    const html = await (await app.request('/')).text();
+    expect(html).toContain('<p>late $& text</p>');
+    expect(html).not.toContain('A:0');
+  });
+});
+
+describe('ISR tags', () => {
+  function createISRApp() {
+    const adapter = new MemoryCacheAdapter();
+    let renders = 0;
+    const app = registerRoutes(
+      new Hono(),
+      [
+        SolRoutes.Page({
+          path: '/posts/:slug',
+          title: 'Post',
+          revalidate: 60,
+          tags: ({ params }) => [`post:${params.values.slug}`],
+          handler: ({ params }) => `<p>${params.values.slug} #${++renders}</p>`,
+        }),
+        SolRoutes.WithMiddleware({
+          middleware: [revalidateMiddleware(new ISRCacheManager(adapter))],
+          children: [SolRoutes.Post({ path: '/api/revalidate', handler: () => ({}) })],
+        }),
+      ],
+      { enableISR: true, cacheAdapter: adapter }
+    );
+    const revalidate = (body: object) =>
+      app.request('/api/revalidate', {
+        method: 'POST',
+        body: JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json' },
+      });
+    return { app, revalidate };
+  }
+
+  it('purges pages by tag', async () => {
+    const { app, revalidate } = createISRApp();
+
+    expect(await (await app.request('/posts/a')).text()).toContain('a #1');
+    expect(await (await app.request('/posts/b')).text()).toContain('b #2');
+    expect((await app.request('/posts/a')).headers.get('X-Sol-Cache')).toBe('hit');
+
+    const res = await revalidate({ tag: 'post:a' });
+    expect(await res.json()).toEqual({ revalidated: true, tag: 'post:a' });
+
+    expect(await (await app.request('/posts/a')).text()).toContain('a #3');
+    expect((await app.request('/posts/b')).headers.get('X-Sol-Cache')).toBe('hit');
+  });
+
+  it('purges query variants and globs by path', async () => {
+    const { app, revalidate } = createISRApp();
+    await app.request('/posts/a');
+    await app.request('/posts/a?ref=feed');
+    await app.request('/posts/b');
+
+    await revalidate({ path: '/posts/a' });
+    expect((await app.request('/posts/a')).headers.get('X-Sol-Cache')).toBe('miss');
+    expect((await app.request('/posts/a?ref=feed')).headers.get('X-Sol-Cache')).toBe('miss');
+    expect((await app.request('/posts/b')).headers.get('X-Sol-Cache')).toBe('hit');
+
+    await revalidate({ path: '/posts/*' });
+    expect((await app.request('/posts/b')).headers.get('X-Sol-Cache')).toBe('miss');
+  });
+});
+
+describe('ISR coalescing', () => {
+  it('renders a cold page once for concurrent requests', async () => {
+    let renders = 0;
+    const app = registerRoutes(
+      new Hono(),
+      [
+        SolRoutes.Page({
+          path: '/popular',
+          title: 'Popular',
+          revalidate: 60,
+          loader: async () => {
+            renders++;
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            return { renders };
+          },
+          handler: ({ data }) => `<p>render ${data.renders}</p>`,
+        }),
+      ],
+      { enableISR: true }
+    );
+
+    const responses = await Promise.all(Array.from({ length: 3 }, () => app.request('/popular')));
+
+    expect(renders).toBe(1);
+    for (const res of responses) {
+      expect(await res.text()).toContain('render 1');
+    }
+    expect((await app.request('/popular')).headers.get('X-Sol-Cache')).toBe('hit');
+  });
+});
+
+describe('ISR vary', () => {
+  function createVaryApp(middleware: boolean) {
+    let renders = 0;
+    const page = SolRoutes.Page({
+      path: '/landing',
+      title: 'Landing',
+      revalidate: 60,
+      vary: { cookies: ['cohort'], headers: ['X-Device'], locale: ['en', 'ja'], query: ['page'] },
+      handler: ({ ctx, locale }) =>
+        `<p>${locale} ${ctx.req.header('Cookie') ?? ''} #${++renders}</p>`,
+    });
+    const app = registerRoutes(
+      new Hono(),
+      middleware
+        ? [
+            SolRoutes.WithMiddleware({
+              middleware: [
+                async (c, next) => {
+                  if (c.req.header('X-Block')) return c.text('blocked', 403);
+                  return next();
+                },
+              ],
+              children: [page],
+            }),
+          ]
+        : [page],
+      { enableISR: true, cacheAdapter: new MemoryCacheAdapter() }
+    );
+    const get = (url: string, headers: Record<string, string> = {}) =>
+      app.request(url, { headers: { 'Accept-Language': 'ja-JP,en;q=0.8', ...headers } });
+    const cacheStatus = async (url: string, headers?: Record<string, string>) =>
+      (await get(url, headers)).headers.get('X-Sol-Cache');
+    return { get, cacheStatus };
+  }
+
+  it('buckets entries by cookie, header and locale', async () => {
+    const { get, cacheStatus } = createVaryApp(false);
+
+    const first = await get('/landing', { Cookie: 'cohort=A' });
+    expect(await first.text()).toContain('ja cohort=A #1');
+    expect(first.headers.get('Vary')).toBe('X-Device, Cookie, Accept-Language');
+
+    expect(await cacheStatus('/landing', { Cookie: 'cohort=A; session=x' })).toBe('hit');
+    expect(await cacheStatus('/landing', { Cookie: 'cohort=B' })).toBe('miss');
+    expect(await cacheStatus('/landing', { Cookie: 'cohort=A', 'X-Device': 'mobile' })).toBe('miss');
+
+    const english = await get('/landing', { Cookie: 'cohort=A', 'Accept-Language': 'en-GB' });
+    expect(english.headers.get('X-Sol-Cache')).toBe('miss');
+    expect(await english.text()).toContain('<p>en ');
+    // Unsupported languages fall back to the first locale
+    expect(await cacheStatus('/landing', { Cookie: 'cohort=A', 'Accept-Language': 'fr' })).toBe('hit');
+  });
+
+  it('drops query params outside the allow-list', async () => {
+    const { get, cacheStatus } = createVaryApp(false);
+
+    await get('/landing?page=2&utm_source=mail');
+    expect(await cacheStatus('/landing?utm_campaign=x&page=2')).toBe('hit');
+    expect(await cacheStatus('/landing?page=3')).toBe('miss');
+  });
+
+  it('caches middleware-wrapped pages that declare vary', async () => {
+    const { get, cacheStatus } = createVaryApp(true);
+
+    expect(await cacheStatus('/landing')).toBe('miss');
+    expect(await cacheStatus('/landing')).toBe('hit');
+    expect((await get('/landing', { 'X-Block': '1' })).status).toBe(403);
+  });
+
+  it('keeps middleware-wrapped pages without vary uncached', async () => {
+    const app = registerRoutes(
+      new Hono(),
+      [
+        SolRoutes.WithMiddleware({
+          middleware: [async (_c, next) => next()],
+          children: [SolRoutes.Page({ path: '/me', title: 'Me', revalidate: 60, handler: () => 'me' })],
+        }),
+      ],
+      { enableISR: true, cacheAdapter: new MemoryCacheAdapter() }
+    );
+
+    await app.request('/me');
+    expect((await app.request('/me')).headers.get('X-Sol-Cache')).toBeNull();
+  });
+});
+
+describe('page head', () => {
+  function createHeadApp(config: { defaultHead?: string; streaming?: boolean } = {}) {
+    return registerRoutes(
+      new Hono(),
+      [
+        SolRoutes.Page({
+          path: '/posts/:slug',
+          title: 'Post <1>',
+          loader: ({ params }) => ({ title: `Post ${params.values.slug}` }),
+          head: ({ data }) => ({
+            og: { title: data.title },
+            links: [{ rel: 'canonical', href: '/posts/a' }],
+          }),
+          handler: ({ data }) => `<h1>${data.title}</h1>`,
+        }),
+      ],
+      config
+    );
+  }
+
+  it('renders the head into the document and overrides defaultHead', async () => {
+    const app = createHeadApp({
+      defaultHead: '<meta property="og:title" content="Site"><link rel="stylesheet" href="/app.css">',
+    });
+
+    const html = await (await app.request('/posts/a')).text();
+
+    expect(html).toContain('<title>Post &lt;1&gt;</title>');
+    expect(html).toContain('<meta property="og:title" content="Post a" data-sol-head>');
+    expect(html).toContain('<link rel="canonical" href="/posts/a" data-sol-head>');
+    expect(html).toContain('<link rel="stylesheet" href="/app.css">');
+    expect(html).not.toContain('content="Site"');
+  });
+
+  it('streams the head once the page loader resolves', async () => {
+    const app = createHeadApp({ streaming: true });
+
+    const html = await (await app.request('/posts/b')).text();
+
+    expect(html.indexOf('content="Post b"')).toBeLessThan(html.indexOf('<h1>Post b</h1>'));
+  });
+
+  it('renders the error boundary when a streamed head waits on a failing loader', async () => {
+    const app = registerRoutes(
+      new Hono(),
+      [
+        SolRoutes.ErrorBoundary({ handler: ({ status }) => `<p>error ${status}</p>` }),
+        SolRoutes.Page({
+          path: '/posts/:slug',
+          title: 'Post',
+          streaming: true,
+          loader: async (): Promise<{ title: string }> => {
+            throw new Error('db down');
+          },
+          head: ({ data }) => ({ og: { title: data.title } }),
+          handler: ({ data }) => `<h1>${data.title}</h1>`,
+        }),
+      ]
+    );
+
+    const res = await app.request('/posts/a');
+
+    expect(res.status).toBe(500);
+    const html = await res.text();
+    expect(html).toContain('<p>error 500</p>');
+    expect(html.trimEnd().endsWith('</html>')).toBe(true);
+  });
+
+  it('emits head assets for fragment requests', async () => {
+    const app = createHeadApp();
+
+    const res = await app.request('/posts/a', { headers: { 'X-Sol-Fragment': 'true' } });
+
+    expect(await res.text()).toContain(
+      '<template data-sol-head-assets><meta property="og:title" content="Post a" data-sol-head>'
+    );
+  });
+
+  it('opts sol-nav in to view transitions from navigation config', async () => {
+    const page = SolRoutes.Page({ path: '/', title: 'Home', handler: () => '<p>home</p>' });
+    const enabled = registerRoutes(new Hono(), [page], {
+      navigation: { viewTransitions: true },
+    });
+    const disabled = registerRoutes(new Hono(), [page]);
+
+    expect(await (await enabled.request('/')).text()).toContain(
+      '<meta name="sol-view-transitions" content="on">'
+    );
+    expect(await (await disabled.request('/')).text()).not.toContain('sol-view-transitions');
+  });
+});
+
+describe('error boundaries', () => {
+  function createBoundaryApp(streaming = false) {
+    return registerRoutes(
+      new Hono(),
+      [
+        SolRoutes.NotFound({ handler: () => '<p>site 404</p>' }),
+        SolRoutes.ErrorBoundary({ handler: ({ status }) => `<p>site error ${status}</p>` }),
+        SolRoutes.Layout({
+          segment: '/docs',
+          layout: (_, children) => `<aside>docs</aside>${children}`,
+          children: [
+            SolRoutes.NotFound({ title: 'Missing doc', handler: () => '<p>doc 404</p>' }),
+            SolRoutes.ErrorBoundary({
+              handler: ({ error }) => `<p>doc error: ${(error as Error).message}</p>`,
+            }),
+            SolRoutes.Page({ path: '/docs/intro', title: 'Intro', handler: () => '<p>intro</p>' }),
+            SolRoutes.Page({
+              path: '/docs/broken',
+              title: 'Broken',
+              loader: async (): Promise<string> => {
+                throw new Error('db down');
+              },
+              handler: ({ data }) => data,
+            }),
+            SolRoutes.Page({
+              path: '/docs/:slug',
+              title: 'Doc',
+              handler: ({ params }) => {
+                throw new HTTPException(404, { message: params.values.slug });
+              },
+            }),
+          ],
+        }),
+        SolRoutes.Page({
+          path: '/forbidden',
+          title: 'Forbidden',
+          handler: () => {
+            throw new HTTPException(403);
+          },
+        }),
+      ],
+      { streaming }
+    );
+  }
+
+  it('renders the nearest error boundary inside its layout', async () => {
+    const res = await createBoundaryApp().request('/docs/broken');
+
+    expect(res.status).toBe(500);
+    const html = await res.text();
+    expect(html).toContain('<aside>docs</aside><p>doc error: db down</p>');
+    expect(html).toContain('<title>Error</title>');
+  });
+
+  it('uses the status of the thrown error', async () => {
+    const res = await createBoundaryApp().request('/forbidden');
+
+    expect(res.status).toBe(403);
+    expect(await res.text()).toContain('<p>site error 403</p>');
+  });
+
+  it('renders NotFound for thrown 404s', async () => {
+    const res = await createBoundaryApp().request('/docs/missing');
+
+    expect(res.status).toBe(404);
+    expect(await res.text()).toContain('<aside>docs</aside><p>doc 404</p>');
+  });
+
+  it('renders the NotFound of the most specific scope for unmatched URLs', async () => {
+    const app = createBoundaryApp();
+
+    const nested = await app.request('/docs/a/b');
+    expect(nested.status).toBe(404);
+    expect(await nested.text()).toContain('<title>Missing doc</title>');
+
+    const root = await app.request('/nope');
+    expect(root.status).toBe(404);
+    expect(await root.text()).toContain('<p>site 404</p>');
+  });
+
+  it('matches NotFound scopes of parameterized layouts', async () => {
+    const app = registerRoutes(new Hono(), [
+      SolRoutes.NotFound({ handler: () => '<p>site 404</p>' }),
+      SolRoutes.Layout({
+        segment: '/users/:id',
+        layout: (_, children) => `<nav>user</nav>${children}`,
+        children: [
+          SolRoutes.NotFound({ handler: () => '<p>user 404</p>' }),
+          SolRoutes.Page({ path: '/users/:id', title: 'User', handler: () => '<p>user</p>' }),
+        ],
+      }),
+    ]);
+
+    expect(await (await app.request('/users/1/missing')).text()).toContain(
+      '<nav>user</nav><p>user 404</p>'
+    );
+    expect(await (await app.request('/users-archive')).text()).toContain('<p>site 404</p>');
+  });
+
+  it('answers thrown 404s of streamed pages with the NotFound status', async () => {
+    const res = await createBoundaryApp(true).request('/docs/missing');
+
+    expect(res.status).toBe(404);
+    expect(await res.text()).toContain('<aside>docs</aside><p>doc 404</p>');
+  });
+
+  it('wraps NotFound in outlet templates for fragment requests', async () => {
+    const res = await createBoundaryApp().request('/docs/a/b', {
+      headers: { 'X-Sol-Fragment': 'true' },
+    });
+
+    expect(res.status).toBe(404);
+    expect(res.headers.get('X-Sol-Fragment-Response')).toBe('true');
+    expect(await res.text()).toBe(
+      '<template data-sol-outlet="main"><aside>docs</aside><p>doc 404</p></template>' +
+        '<template data-sol-title>Missing doc</template>'
+    );
+  });
+
+  it('returns boundary content for fragment requests', async () => {
+    const res = await createBoundaryApp().request('/docs/broken', {
+      headers: { 'X-Sol-Fragment': 'true' },
+    });
+
+    expect(res.status).toBe(500);
+    expect(res.headers.get('X-Sol-Fragment-Response')).toBe('true');
+    expect(await res.text()).toBe(
+      '<template data-sol-outlet="main"><aside>docs</aside><p>doc error: db down</p></template>' +
+        '<template data-sol-title>Error</template>'
+    );
+  });
+
+  it('renders boundaries with their status for streamed pages', async () => {
+    const res = await createBoundaryApp(true).request('/docs/broken');
+
+    expect(res.status).toBe(500);
+    expect(await res.text()).toContain('<aside>docs</aside><p>doc error: db down</p>');
+  });
+
+  it('rethrows without a boundary', async () => {
+    const app = createTestApp([
+      SolRoutes.Page({
+        path: '/',
+        title: 'Home',
+        handler: () => {
+          throw new Error('boom');
+        },
+      }),
+    ]);
+
+    expect((await app.request('/')).status).toBe(500);
+    expect((await app.request('/missing')).status).toBe(404);
+  });
+});
+
+describe('serializeLoaderData()', () => {
+  it('escapes characters that could close the script element', () => {
+    const html = serializeLoaderData({ body: '</script><script>alert(1)</script>' });
+
+    expect(html).not.toContain('</script><script>');
+    expect(html).toContain('\\u003c/script\\u003e');
+  });
+
+  it('serializes undefined as null', () => {
+    expect(serializeLoaderData(undefined)).toBe(
+      '<script type="application/json" data-sol-data>null</script>'
+    );
+  });
+});
+
+describe('form actions', () => {
+  const signupPage = SolRoutes.Page({
+    path: '/signup',
+    title: 'Sign up',
+    handler: ({ action }) =>
+      `<form data-sol-form method="post"><input name="email" value="${action?.values.email ?? ''}">${action?.errors.email ?? ''}</form>`,
+  });
+
+  function createSignupApp(onSubmit: (email: string) => void = () => {}) {
+    return createTestApp([
+      signupPage,
+      SolRoutes.Action({
+        path: '/signup',
+        page: signupPage,
+        validate: (form) => {
+          const email = String(form.get('email') ?? '');
+          return email.includes('@')
+            ? { data: { email } }
+            : { errors: { email: 'Invalid email' } };
+        },
+        handler: ({ input }) => {
+          onSubmit(input.email);
+          return { redirect: '/welcome' };
+        },
+      }),
+    ]);
+  }
+
+  function post(app: ReturnType<typeof createSignupApp>, email: string, headers = {}) {
+    const body = new FormData();
+    body.set('email', email);
+    return app.request('/signup', { method: 'POST', body, headers });
+  }
+
+  it('redirects with 303 after a valid submission', async () => {
+    const submitted: string[] = [];
+    const app = createSignupApp((email) => submitted.push(email));
+
+    const res = await post(app, 'a@example.com');
+
+    expect(res.status).toBe(303);
+    expect(res.headers.get('Location')).toBe('/welcome');
+    expect(submitted).toEqual(['a@example.com']);
+  });
+
+  it('re-renders the page with field errors when validation fails', async () => {
+    const app = createSignupApp();
+
+    const res = await post(app, 'nope');
+    const html = await res.text();
+
+    expect(res.status).toBe(422);
+    expect(html).toContain('<!DOCTYPE html>');
+    expect(html).toContain('value="nope"');
+    expect(html).toContain('Invalid email');
+  });
+
+  it('re-renders as a fragment for sol-nav submissions', async () => {
+    const app = createSignupApp();
+
+    const res = await post(app, 'nope', { 'X-Sol-Fragment': 'true' });
+    const html = await res.text();
+
+    expect(res.status).toBe(422);
+    expect(res.headers.get('X-Sol-Fragment-Response')).toBe('true');
+    expect(html).not.toContain('<!DOCTYPE html>');
+    expect(html).toContain('<template data-sol-outlet="main"><form');
+    expect(html).toContain('Invalid email');
+  });
+
+  it('renders the error boundary when the handler or validator throws', async () => {
+    const app = createTestApp([
+      SolRoutes.ErrorBoundary({ handler: ({ error }) => `<p>${(error as Error).message}</p>` }),
+      SolRoutes.Action({
+        path: '/save',
+        handler: () => {
+          throw new Error('save failed');
+        },
+      }),
+      SolRoutes.Action({
+        path: '/check',
+        validate: () => {
+          throw new HTTPException(403, { message: 'no access' });
+        },
+        handler: () => ({ redirect: '/' }),
+      }),
+    ]);
+
+    const save = await app.request('/save', { method: 'POST', body: new FormData() });
+    expect(save.status).toBe(500);
+    expect(await save.text()).toContain('<p>save failed</p>');
+
+    const check = await app.request('/check', {
+      method: 'POST',
+      body: new FormData(),
+      headers: { 'X-Sol-Fragment': 'true' },
+    });
+    expect(check.status).toBe(403);
+    expect(await check.text()).toBe(
+      '<template data-sol-outlet="main"><p>no access</p></template><template data-sol-title>Error</template>'
+    );
+  });
+
+  it('reports errors returned by the handler as JSON without a page', async () => {
+    const app = createTestApp([
+      SolRoutes.Action({
+        path: '/comments',
+        handler: () => ({ errors: { body: 'Required' } }),
+      }),
+    ]);
+
+    const res = await app.request('/comments', { method: 'POST', body: new FormData() });
+
+    expect(res.status).toBe(422);
+    expect(await res.json()).toEqual({ errors: { body: 'Required' }, values: {} });
+  });
+
+  it('runs enclosing middlewares', async () => {
+    const app = createTestApp([
+      SolRoutes.WithMiddleware({
+        middleware: [async (c) => c.text('Forbidden', 403)],
+        children: [
+          SolRoutes.Action({ path: '/delete', handler: () => ({ redirect: '/' }) }),
+        ],
+      }),
+    ]);
+
+    const res = await app.request('/delete', { method: 'POST', body: new FormData() });
+    expect(res.status).toBe(403);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DeferredSections,
+  createHTMLStream,
+  renderReplacementChunk,
+  resolveDeferredInline,
+} from '../streaming';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+async function readChunks(stream: ReadableStream<Uint8Array>, onChunk?: (chunk: string) => void) {
+  const decoder = new TextDecoder();
+  const chunks: string[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const chunk = decoder.decode(value);
+    chunks.push(chunk);
+    onChunk?.(chunk);
+  }
+  return chunks;
+}
+
+describe('DeferredSections', () => {
+  it('returns a placeholder with the fallback', () => {
+    const sections = new DeferredSections();
+    expect(sections.defer(Promise.resolve('a'), { fallback: 'Loading...' })).toBe(
+      '<div id="A:0">Loading...</div>'
+    );
+    expect(sections.defer(Promise.resolve('b'))).toBe('<div id="A:1"></div>');
+  });
+
+  it('anchors Suspense boundaries with comments', () => {
+    const sections = new DeferredSections();
+    expect(
+      sections.defer(Promise.resolve('<tr><td>a</td></tr>'), { fallback: 'Loading...', boundary: 'rows' })
+    ).toBe('<!--suspense:rows-->Loading...<!--/suspense:rows-->');
+    expect(() => sections.defer(Promise.resolve(''), { boundary: 'a--b' })).toThrow(
+      'Invalid Suspense boundary id'
+    );
+  });
+
+  it('hands out registered sections once', () => {
+    const sections = new DeferredSections();
+    sections.defer(Promise.resolve('a'));
+
+    expect(sections.take()).toHaveLength(1);
+    expect(sections.take()).toHaveLength(0);
+  });
+});
+
+describe('renderReplacementChunk()', () => {
+  it('wraps content in a template and swap script', () => {
+    const chunk = renderReplacementChunk(3, '<p>done</p>');
+
+    expect(chunk).toContain('<template id="T:3"><p>done</p></template>');
+    expect(chunk).toContain("document.getElementById('A:3')");
+  });
+
+  it('fills the nodes between Suspense anchors', () => {
+    const chunk = renderReplacementChunk(0, '<tr><td>a</td></tr>', 'rows');
+
+    expect(chunk).toContain('<template id="T:0"><tr><td>a</td></tr></template>');
+    expect(chunk).toContain("n.data!=='suspense:rows'");
+    expect(chunk).toContain("n.data==='/suspense:rows'");
+    expect(chunk).not.toContain('A:0');
+  });
+});
+
+describe('resolveDeferredInline()', () => {
+  it('inlines resolved content, including nested sections', async () => {
+    const sections = new DeferredSections();
+    const html = `<main>${sections.defer(async () => `<p>outer ${sections.defer(Promise.resolve('inner'))}</p>`)}</main>`;
+
+    expect(await resolveDeferredInline(html, sections)).toBe('<main><p>outer inner</p></main>');
+  });
+
+  it('uses the error renderer, then the fallback, for rejected sections', async () => {
+    const sections = new DeferredSections();
+    const html =
+      sections.defer(Promise.reject(new Error('boom')), {
+        error: (e) => `<p>${(e as Error).message}</p>`,
+      }) +
+      sections.defer(() => {
+        throw new Error('sync');
+      }, { fallback: 'fallback' });
+
+    expect(await resolveDeferredInline(html, sections)).toBe('<p>boom</p>fallback');
+  });
+
+  it('keeps the anchors of Suspense boundaries', async () => {
+    const sections = new DeferredSections();
+    const html = sections.defer(Promise.resolve('<li>a</li>'), { boundary: 'items' });
+
+    expect(await resolveDeferredInline(html, sections)).toBe(
+      '<!--suspense:items--><li>a</li><!--/suspense:items-->'
+    );
+  });
+});
+
+describe('createHTMLStream()', () => {
+  it('flushes the head before the body renders', async () => {
+    const sections = new DeferredSections();
+    const body = deferred<string>();
+    const seen: string[] = [];
+
+    const reading = readChunks(
+      createHTMLStream('<head>', () => body.promise, sections, '</html>'),
+      (chunk) => seen.push(chunk)
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(seen).toEqual(['<head>']);
+    body.resolve('<body>');
+    expect(await reading).toEqual(['<head>', '<body>', '</html>']);
+  });
+
+  it('streams sections in completion order', async () => {
+    const sections = new DeferredSections();
+    const slow = deferred<string>();
+    const fast = deferred<string>();
+
+    const chunks = readChunks(
+      createHTMLStream(
+        '<head>',
+        async () => sections.defer(slow.promise) + sections.defer(fast.promise),
+        sections,
+        '</html>'
+      )
+    );
+    fast.resolve('fast');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    slow.resolve('slow');
+
+    expect(await chunks).toEqual([
+      '<head>',
+      '<div id="A:0"></div><div id="A:1"></div>',
+      renderReplacementChunk(1, 'fast'),
+      renderReplacementChunk(0, 'slow'),
+      '</html>',
+    ]);
+  });
+
+  it('flushes nested sections after their parent', async () => {
+    const sections = new DeferredSections();
+
+    const chunks = await readChunks(
+      createHTMLStream(
+        '',
+        async () =>
+          sections.defer(async () => {
+            const inner = sections.defer(Promise.resolve('inner'));
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            return `outer ${inner}`;
+          }),
+        sections,
+        ''
+      )
+    );
+
+    expect(chunks.indexOf(renderReplacementChunk(0, 'outer <div id="A:1"></div>'))).toBeLessThan(
+      chunks.indexOf(renderReplacementChunk(1, 'inner'))
+    );
+  });
+});